@@ -0,0 +1,299 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const { sendChat, toStreamEvents, KapaApiError, KapaStreamError, KapaTimeoutError, KapaCancelledError } =
+  await import('./api.js');
+const { computeBackoff, parseRetryAfter, resolveRetryPolicy } = await import('./retry.js');
+type KapaStreamEvent = import('./api.js').KapaStreamEvent;
+
+type ScriptedReply = (res: http.ServerResponse) => void;
+
+async function startScriptedServer(replies: ScriptedReply[]) {
+  let calls = 0;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const reply = replies[Math.min(calls, replies.length - 1)];
+      calls += 1;
+      reply(res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    get calls() {
+      return calls;
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const status =
+  (code: number, headers: Record<string, string> = {}): ScriptedReply =>
+  (res) => {
+    res.writeHead(code, { 'Content-Type': 'text/plain', ...headers });
+    res.end(`status ${code}`);
+  };
+
+const answer =
+  (text: string): ScriptedReply =>
+  (res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ answer: text, thread_id: 't1' }));
+  };
+
+const baseOptions = {
+  apiKey: 'sk-test',
+  projectId: 'proj',
+  integrationId: 'integ',
+  prompt: 'hello',
+  retry: { baseDelayMs: 1, maxDelayMs: 5 },
+};
+
+test('retries retryable statuses and honours Retry-After', async () => {
+  const server = await startScriptedServer([
+    status(503),
+    status(429, { 'Retry-After': '0' }),
+    answer('ok'),
+  ]);
+  const retries: Array<{ status?: number; delayMs: number; attempt: number }> = [];
+  try {
+    const response = await sendChat({
+      ...baseOptions,
+      baseUrl: server.baseUrl,
+      onRetry: (info) => retries.push(info),
+    });
+    assert.equal(response.data.answer, 'ok');
+    assert.equal(server.calls, 3);
+    assert.deepEqual(
+      retries.map((info) => [info.status, info.attempt]),
+      [
+        [503, 2],
+        [429, 3],
+      ],
+    );
+    assert.equal(retries[1].delayMs, 0);
+  } finally {
+    await server.close();
+  }
+});
+
+test('does not retry client errors', async () => {
+  const server = await startScriptedServer([status(400), answer('unreachable')]);
+  try {
+    await assert.rejects(sendChat({ ...baseOptions, baseUrl: server.baseUrl }), (error: any) => {
+      assert.ok(error instanceof KapaApiError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+    assert.equal(server.calls, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+test('gives up after maxAttempts', async () => {
+  const server = await startScriptedServer([status(502)]);
+  try {
+    await assert.rejects(
+      sendChat({ ...baseOptions, baseUrl: server.baseUrl, retry: { ...baseOptions.retry, maxAttempts: 2 } }),
+      /Kapa API error 502/,
+    );
+    assert.equal(server.calls, 2);
+  } finally {
+    await server.close();
+  }
+});
+
+test('never retries once streamed text has been emitted', async () => {
+  const server = await startScriptedServer([
+    (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"chunk":{"type":"partial_answer","content":{"text":"partial"}}}\n\n');
+      setTimeout(() => res.socket?.destroy(), 20);
+    },
+    answer('unreachable'),
+  ]);
+  const seen: string[] = [];
+  try {
+    await assert.rejects(
+      sendChat({
+        ...baseOptions,
+        baseUrl: server.baseUrl,
+        stream: true,
+        onStreamEvent: (event) => {
+          if (event.type === 'answer') seen.push(event.text);
+        },
+      }),
+    );
+    assert.deepEqual(seen, ['partial']);
+    assert.equal(server.calls, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+test('a stream retried before any answer text delivers sources and ids once', async () => {
+  const server = await startScriptedServer([
+    (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"chunk":{"type":"relevant_sources","content":{"relevant_sources":[{"title":"Old"}]}}}\n\n');
+      res.write('data: {"chunk":{"type":"identifiers","content":{"thread_id":"t0"}}}\n\n');
+      setTimeout(() => res.socket?.destroy(), 20);
+    },
+    (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"chunk":{"type":"relevant_sources","content":{"relevant_sources":[{"title":"New"}]}}}\n\n');
+      res.write('data: {"chunk":{"type":"partial_answer","content":{"text":"recovered"}}}\n\n');
+      res.write('data: {"chunk":{"type":"identifiers","content":{"thread_id":"t1"}}}\n\n');
+      res.end();
+    },
+  ]);
+  const seen: KapaStreamEvent[] = [];
+  try {
+    const result = await sendChat({
+      ...baseOptions,
+      baseUrl: server.baseUrl,
+      stream: true,
+      onStreamEvent: (event) => seen.push(event),
+    });
+    assert.equal(result.data.answer, 'recovered');
+    assert.equal(server.calls, 2);
+    assert.deepEqual(
+      seen.map((event) => event.type),
+      ['sources', 'answer', 'identifiers', 'done'],
+    );
+    assert.deepEqual(seen[0], { type: 'sources', sources: [{ title: 'New' }] });
+    assert.deepEqual(seen[2], { type: 'identifiers', threadId: 't1', questionAnswerId: undefined });
+  } finally {
+    await server.close();
+  }
+});
+
+test('retry helpers parse headers and bound backoff', () => {
+  assert.equal(parseRetryAfter('2'), 2000);
+  assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', Date.UTC(2015, 9, 21, 7, 28, 0)), 5000);
+  assert.equal(parseRetryAfter('soon'), null);
+
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+  assert.equal(computeBackoff(1, policy, () => 0), 50);
+  assert.equal(computeBackoff(3, policy, () => 1), 400);
+  assert.equal(computeBackoff(10, policy, () => 1), 1000);
+});
+
+const sse =
+  (...messages: unknown[]): ScriptedReply =>
+  (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const message of messages) {
+      res.write(`data: ${typeof message === 'string' ? message : JSON.stringify(message)}\n\n`);
+    }
+    res.end();
+  };
+
+test('stream chunks are mapped to typed events', async () => {
+  const server = await startScriptedServer([
+    sse(
+      { chunk: { type: 'relevant_sources', content: { relevant_sources: [{ title: 'Doc', url: 'https://d' }] } } },
+      { chunk: { type: 'partial_answer', content: { text: 'Hello ' } } },
+      { chunk: { type: 'partial_answer', content: { text: 'world' } } },
+      { chunk: { type: 'identifiers', content: { thread_id: 't9', question_answer_id: 'qa9' } } },
+      '[DONE]',
+    ),
+  ]);
+  const types: string[] = [];
+  try {
+    const response = await sendChat({
+      ...baseOptions,
+      baseUrl: server.baseUrl,
+      stream: true,
+      onStreamEvent: (event) => types.push(event.type),
+    });
+    assert.deepEqual(types, ['sources', 'answer', 'answer', 'identifiers', 'done']);
+    assert.equal(response.data.answer, 'Hello world');
+    assert.equal(response.data.thread_id, 't9');
+    assert.equal(response.data.question_answer_id, 'qa9');
+    assert.equal(response.data.relevant_sources[0].title, 'Doc');
+  } finally {
+    await server.close();
+  }
+});
+
+test('only documented stream fields are mapped', () => {
+  assert.deepEqual(toStreamEvents('message', '{"message":"Queued, please wait"}'), []);
+  assert.deepEqual(toStreamEvents('message', '{"text":"status: retrying","delta":"x"}'), []);
+  assert.deepEqual(toStreamEvents('message', '{"choices":[{"delta":"x"}]}'), []);
+  assert.deepEqual(toStreamEvents('identifiers', '{"id":"not-a-qa-id"}'), []);
+  assert.deepEqual(toStreamEvents('message', '{"thread_id":"t1","question_answer_id":"qa1","id":"x"}'), [
+    { type: 'identifiers', threadId: 't1', questionAnswerId: 'qa1' },
+  ]);
+  assert.deepEqual(toStreamEvents('message', '{"error":{"reason":"quota"}}'), [{ type: 'error', message: 'quota' }]);
+  assert.deepEqual(toStreamEvents('partial_answer', '{"text":"Hi"}'), [{ type: 'answer', text: 'Hi' }]);
+});
+
+test('in-stream errors reject with KapaStreamError', async () => {
+  const server = await startScriptedServer([
+    sse(
+      { chunk: { type: 'partial_answer', content: { text: 'Half' } } },
+      { chunk: { type: 'error', content: { reason: 'model overloaded' } } },
+    ),
+  ]);
+  try {
+    await assert.rejects(
+      sendChat({ ...baseOptions, baseUrl: server.baseUrl, stream: true }),
+      (error: any) => error instanceof KapaStreamError && /model overloaded/.test(error.message),
+    );
+    assert.equal(server.calls, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+const stalledStream: ScriptedReply = (res) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  res.write('data: {"chunk":{"type":"partial_answer","content":{"text":"partial"}}}\n\n');
+};
+
+test('idle streams are aborted with KapaTimeoutError', async () => {
+  const server = await startScriptedServer([stalledStream]);
+  try {
+    await assert.rejects(
+      sendChat({ ...baseOptions, baseUrl: server.baseUrl, stream: true, idleTimeoutMs: 100 }),
+      (error: any) => error instanceof KapaTimeoutError && /No data received/.test(error.message),
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test('caller cancellation surfaces the abort reason and keeps streamed text', async () => {
+  const server = await startScriptedServer([stalledStream]);
+  const controller = new AbortController();
+  const seen: string[] = [];
+  try {
+    await assert.rejects(
+      sendChat({
+        ...baseOptions,
+        baseUrl: server.baseUrl,
+        stream: true,
+        signal: controller.signal,
+        onStreamEvent: (event) => {
+          if (event.type !== 'answer') return;
+          seen.push(event.text);
+          controller.abort(new KapaCancelledError());
+        },
+      }),
+      (error: any) => error instanceof KapaCancelledError,
+    );
+    assert.deepEqual(seen, ['partial']);
+  } finally {
+    await server.close();
+  }
+});
@@ -1,13 +1,43 @@
-import { fetch } from 'undici';
+import type { Dispatcher } from 'undici';
+import { cassetteFetch } from './cassette.js';
+import { isRetryableStatus, parseRetryAfter, withRetry } from './retry.js';
+import type { RetryDecision, RetryInfo, RetryPolicy } from './retry.js';
+import { iterateSse } from './sse.js';
+import { createLogger, traceRequest } from './trace.js';
+import type { TraceExchange } from './trace.js';
+import { formatDuration } from './utils.js';
+import type { SseSource } from './sse.js';
 
-export interface StreamEvent {
-  type: string;
-  text?: string;
-  payload?: unknown;
-}
+/**
+ * Events emitted while consuming a streamed chat response.
+ *
+ * - `answer`: the next slice of answer text.
+ * - `sources`: documents the answer is grounded on (may arrive before the answer finishes).
+ * - `identifiers`: thread and question-answer ids assigned by Kapa.
+ * - `error`: the server reported a failure mid-stream; `sendChat` rejects right after.
+ * - `done`: the stream finished normally.
+ */
+export type KapaStreamEvent =
+  | { type: 'answer'; text: string }
+  | { type: 'sources'; sources: Array<Record<string, any>> }
+  | { type: 'identifiers'; threadId?: string; questionAnswerId?: string }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
 
-export interface ChatOptions {
+export interface RequestOptions {
   apiKey: string;
+  baseUrl?: string;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  onRetry?: (info: RetryInfo) => void;
+  dispatcher?: Dispatcher;
+  /** Overall budget for the call, retries included. 0 or undefined disables it. */
+  timeoutMs?: number;
+  /** Maximum silence between received bytes. 0 or undefined disables it. */
+  idleTimeoutMs?: number;
+}
+
+export interface ChatOptions extends RequestOptions {
   projectId?: string;
   integrationId: string;
   prompt: string;
@@ -15,11 +45,29 @@ export interface ChatOptions {
   userIdentifier?: string;
   temperature?: number;
   threadId?: string;
-  baseUrl?: string;
   stream?: boolean;
   additionalFields?: Record<string, unknown>;
-  signal?: AbortSignal;
-  onStreamEvent?: (event: StreamEvent) => void;
+  onStreamEvent?: (event: KapaStreamEvent) => void;
+}
+
+export type FeedbackReaction = 'upvote' | 'downvote';
+
+export interface FeedbackOptions extends RequestOptions {
+  questionAnswerId: string;
+  reaction: FeedbackReaction;
+  comment?: string;
+  userIdentifier?: string;
+}
+
+export interface SearchOptions extends RequestOptions {
+  projectId: string;
+  query: string;
+  limit?: number;
+  integrationId?: string;
+}
+
+export interface ThreadOptions extends RequestOptions {
+  threadId: string;
 }
 
 export interface ChatResponse {
@@ -27,7 +75,52 @@ export interface ChatResponse {
   data: any;
 }
 
+export class KapaApiError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(status: number, body: string, retryAfterMs: number | null = null) {
+    const snippet = body.length > 500 ? `${body.slice(0, 497)}…` : body;
+    super(`Kapa API error ${status}: ${snippet}`);
+    this.name = 'KapaApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class KapaStreamError extends Error {
+  constructor(message: string) {
+    super(`Kapa stream error: ${message}`);
+    this.name = 'KapaStreamError';
+  }
+}
+
+export class KapaTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KapaTimeoutError';
+  }
+}
+
+/** Abort reason used when the user cancels an in-flight request (e.g. Ctrl+C). */
+export class KapaCancelledError extends Error {
+  constructor(message = 'Request cancelled.') {
+    super(message);
+    this.name = 'KapaCancelledError';
+  }
+}
+
 const DEFAULT_BASE_URL = 'https://api.kapa.ai/query/v1';
+const log = createLogger('api');
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
 
 function stripTrailingSlash(url: string) {
   return url.endsWith('/') ? url.slice(0, -1) : url;
@@ -44,6 +137,28 @@ function buildEndpoint(baseUrl: string, projectId?: string, threadId?: string) {
   return `${root}/projects/${projectId}/chat/`;
 }
 
+function buildThreadEndpoint(baseUrl: string, threadId: string) {
+  const root = stripTrailingSlash(baseUrl || DEFAULT_BASE_URL);
+  return `${root}/threads/${encodeURIComponent(threadId)}/`;
+}
+
+function buildFeedbackEndpoint(baseUrl: string, questionAnswerId: string) {
+  const root = stripTrailingSlash(baseUrl || DEFAULT_BASE_URL);
+  return `${root}/question-answers/${encodeURIComponent(questionAnswerId)}/feedback/`;
+}
+
+function buildSearchEndpoint(baseUrl: string, projectId: string) {
+  const root = stripTrailingSlash(baseUrl || DEFAULT_BASE_URL);
+  return `${root}/projects/${projectId}/search/`;
+}
+
+function buildHeaders(apiKey: string) {
+  return {
+    'Content-Type': 'application/json',
+    'X-API-KEY': apiKey,
+  };
+}
+
 function buildPayload(options: ChatOptions) {
   const payload: Record<string, unknown> = {
     integration_id: options.integrationId,
@@ -66,100 +181,119 @@ function buildPayload(options: ChatOptions) {
   return payload;
 }
 
-function parseSseChunk(chunk: string) {
-  const event: StreamEvent = { type: 'message' };
-  const lines = chunk.split('\n');
-  for (const line of lines) {
-    if (line.startsWith('event:')) {
-      event.type = line.slice(6).trim();
-    } else if (line.startsWith('data:')) {
-      const data = line.slice(5).trim();
-      event.payload = event.payload ? `${event.payload}${data}` : data;
+/**
+ * Maps one SSE message onto typed events. Answer text only comes from Kapa's
+ * `{ chunk: { type, content } }` envelope (or an SSE event named after the chunk type); a flat
+ * payload may carry `error`, `relevant_sources`, `thread_id` and `question_answer_id`. Anything
+ * else is logged at trace level and dropped rather than guessed into the answer.
+ */
+export function toStreamEvents(eventType: string, data: string | undefined): KapaStreamEvent[] {
+  if (data === undefined || data === '') return [];
+  if (data === '[DONE]') return [{ type: 'done' }];
+
+  let payload: any;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    if (eventType === 'error') return [{ type: 'error', message: data }];
+  }
+  let events: KapaStreamEvent[] = [];
+  if (payload && typeof payload === 'object') {
+    if (payload.chunk && typeof payload.chunk === 'object') {
+      events = fromChunk(payload.chunk.type, payload.chunk.content ?? {});
+    } else {
+      if (eventType !== 'message' && eventType !== 'update') events = fromChunk(eventType, payload);
+      if (!events.length) events = fromFlatPayload(payload);
     }
   }
-  return event;
+  if (!events.length) log.trace('unknown stream payload', { event: eventType, data: data.slice(0, 200) });
+  return events;
 }
 
-function extractText(payload: any) {
-  if (!payload) return '';
-  const candidates = [
-    payload.delta,
-    payload.answer_delta,
-    payload.answerChunk,
-    payload.answer_chunk,
-    payload.content_delta,
-    payload.text,
-    payload.message,
-  ];
-
-  for (const value of candidates) {
-    if (typeof value === 'string' && value.length) return value;
+function fromChunk(type: string, content: any): KapaStreamEvent[] {
+  switch (type) {
+    case 'partial_answer':
+    case 'answer':
+    case 'delta': {
+      const text = typeof content === 'string' ? content : content?.text;
+      return typeof text === 'string' && text.length ? [{ type: 'answer', text }] : [];
+    }
+    case 'relevant_sources':
+    case 'sources': {
+      const sources = Array.isArray(content) ? content : content?.relevant_sources;
+      return Array.isArray(sources) ? [{ type: 'sources', sources }] : [];
+    }
+    case 'identifiers':
+      return content?.thread_id || content?.question_answer_id ? [identifiersEvent(content)] : [];
+    case 'error':
+      return [{ type: 'error', message: describeStreamError(content) }];
+    case 'done':
+      return [{ type: 'done' }];
+    default:
+      return [];
   }
+}
 
-  if (Array.isArray(payload.choices)) {
-    return payload.choices.map((choice: any) => choice.delta || choice.text || '').join('');
+function fromFlatPayload(payload: any): KapaStreamEvent[] {
+  if (payload.error) {
+    return [{ type: 'error', message: describeStreamError(payload.error) }];
   }
 
-  return '';
+  const events: KapaStreamEvent[] = [];
+  if (Array.isArray(payload.relevant_sources) && payload.relevant_sources.length) {
+    events.push({ type: 'sources', sources: payload.relevant_sources });
+  }
+  if (payload.thread_id || payload.question_answer_id) {
+    events.push(identifiersEvent(payload));
+  }
+  return events;
 }
 
-async function consumeSse(body: ReadableStream, handler?: (event: StreamEvent) => void) {
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
-  let lastPayload: any = null;
-  let combinedText = '';
-
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-
-    let boundary;
-    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
-      const chunk = buffer.slice(0, boundary);
-      buffer = buffer.slice(boundary + 2);
+function identifiersEvent(content: any): KapaStreamEvent {
+  return {
+    type: 'identifiers',
+    threadId: content?.thread_id,
+    questionAnswerId: content?.question_answer_id,
+  };
+}
 
-      const event = parseSseChunk(chunk);
-      if (event.payload === '[DONE]') {
-        handler?.({ type: 'done' });
-        return (
-          lastPayload || {
-            answer: combinedText,
-          }
-        );
-      }
+function describeStreamError(content: any) {
+  if (typeof content === 'string') return content;
+  return content?.reason || content?.message || content?.detail || JSON.stringify(content);
+}
 
-      let parsedPayload: any;
-      if (typeof event.payload === 'string') {
-        try {
-          parsedPayload = JSON.parse(event.payload);
-        } catch {
-          parsedPayload = event.payload;
-        }
-      } else {
-        parsedPayload = event.payload;
-      }
+async function consumeSse(
+  body: SseSource,
+  handler?: (event: KapaStreamEvent) => void,
+  onChunk?: () => void,
+) {
+  const result: Record<string, any> = { answer: '' };
 
-      lastPayload = typeof parsedPayload === 'object' ? parsedPayload : lastPayload;
-      const text = extractText(parsedPayload);
-      if (text) {
-        combinedText += text;
+  for await (const message of iterateSse(body, { onChunk })) {
+    for (const event of toStreamEvents(message.event, message.data)) {
+      handler?.(event);
+      switch (event.type) {
+        case 'answer':
+          result.answer += event.text;
+          break;
+        case 'sources':
+          result.relevant_sources = event.sources;
+          break;
+        case 'identifiers':
+          if (event.threadId) result.thread_id = event.threadId;
+          if (event.questionAnswerId) result.question_answer_id = event.questionAnswerId;
+          break;
+        case 'error':
+          throw new KapaStreamError(event.message);
+        case 'done':
+          // Leaving the loop cancels the underlying reader.
+          return result;
       }
-
-      handler?.({
-        type: event.type,
-        payload: parsedPayload,
-        text,
-      });
     }
   }
 
-  if (lastPayload && combinedText && !lastPayload.answer) {
-    lastPayload.answer = combinedText;
-  }
-
-  return lastPayload || { answer: combinedText };
+  handler?.({ type: 'done' });
+  return result;
 }
 
 export async function sendChat(options: ChatOptions): Promise<ChatResponse> {
@@ -177,32 +311,270 @@ export async function sendChat(options: ChatOptions): Promise<ChatResponse> {
   );
   const payload = buildPayload(options);
 
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    body: JSON.stringify(payload),
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-KEY': options.apiKey,
-    },
-    signal: options.signal,
-  });
+  // Nothing reaches the caller before the first answer text (or the end of the stream): sources
+  // and ids are held back until then, so an attempt that fails early can be retried without the
+  // caller seeing them twice. Once anything has been passed on, a retry would duplicate output.
+  let emitted = false;
+  const held: KapaStreamEvent[] = [];
+  const forward = (event: KapaStreamEvent) => options.onStreamEvent?.(event);
+  const onStreamEvent = (event: KapaStreamEvent) => {
+    if (!emitted && (event.type === 'sources' || event.type === 'identifiers')) {
+      held.push(event);
+      return;
+    }
+    if (!emitted && (event.type === 'answer' || event.type === 'done')) {
+      emitted = true;
+      held.splice(0).forEach(forward);
+    }
+    forward(event);
+  };
+
+  return withDeadline(options, (scoped, touch) =>
+    withRetry(
+      async () => {
+        touch();
+        held.length = 0;
+        const { response, trace } = await request(endpoint, 'POST', payload, scoped, {
+          accept: options.stream ? 'text/event-stream, application/json' : 'application/json',
+        });
+        return traced(trace, async () => {
+          const contentType = response.headers.get('content-type') ?? '';
+          if (options.stream && contentType.includes('text/event-stream')) {
+            const streamed = await consumeSse(
+              response.body as unknown as SseSource,
+              (event) => {
+                trace.event(event.type, describeTraceEvent(event));
+                onStreamEvent(event);
+              },
+              touch,
+            );
+            trace.finish();
+            return { streamed: true, data: streamed };
+          }
+
+          const data = await response.json().catch(async () => {
+            const text = await response.text();
+            throw new Error(`Unexpected response payload: ${text.slice(0, 400)}`);
+          });
+          trace.finish(JSON.stringify(data));
+          return { streamed: false, data };
+        });
+      },
+      {
+        policy: options.retry,
+        signal: scoped.signal,
+        onRetry: options.onRetry,
+        classify: (error) =>
+          emitted ? { retry: false, reason: 'stream already started' } : classifyError(error),
+      },
+    ),
+  );
+}
+
+export async function sendFeedback(options: FeedbackOptions) {
+  if (!options.apiKey) {
+    throw new Error('Missing KAPA API key.');
+  }
+  if (!options.questionAnswerId) {
+    throw new Error('A question-answer id is required to send feedback.');
+  }
+
+  const payload: Record<string, unknown> = { reaction: options.reaction };
+  if (options.comment) {
+    payload.comment = options.comment;
+  }
+  if (options.userIdentifier) {
+    payload.user_identifier = options.userIdentifier;
+  }
+
+  const endpoint = buildFeedbackEndpoint(options.baseUrl || DEFAULT_BASE_URL, options.questionAnswerId);
+  return requestJson(endpoint, 'POST', payload, options);
+}
+
+export async function fetchThread(options: ThreadOptions) {
+  if (!options.apiKey) {
+    throw new Error('Missing KAPA API key.');
+  }
+  if (!options.threadId) {
+    throw new Error('A thread id is required.');
+  }
+  const endpoint = buildThreadEndpoint(options.baseUrl || DEFAULT_BASE_URL, options.threadId);
+  return requestJson(endpoint, 'GET', undefined, options);
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    const snippet = text.length > 500 ? `${text.slice(0, 497)}…` : text;
-    throw new Error(`Kapa API error ${response.status}: ${snippet}`);
+export async function searchSources(options: SearchOptions) {
+  if (!options.apiKey) {
+    throw new Error('Missing KAPA API key.');
+  }
+  if (!options.projectId) {
+    throw new Error('A project id is required to search sources.');
   }
 
-  const contentType = response.headers.get('content-type') ?? '';
-  if (options.stream && contentType.includes('text/event-stream')) {
-    const streamed = await consumeSse(response.body as unknown as ReadableStream, options.onStreamEvent);
-    return { streamed: true, data: streamed };
+  const payload: Record<string, unknown> = { query: options.query };
+  if (typeof options.limit === 'number') {
+    payload.num_results = options.limit;
+  }
+  if (options.integrationId) {
+    payload.integration_id = options.integrationId;
   }
 
-  const data = await response.json().catch(async () => {
-    const text = await response.text();
-    throw new Error(`Unexpected response payload: ${text.slice(0, 400)}`);
+  const endpoint = buildSearchEndpoint(options.baseUrl || DEFAULT_BASE_URL, options.projectId);
+  return requestJson(endpoint, 'POST', payload, options);
+}
+
+async function request(
+  endpoint: string,
+  method: string,
+  body: unknown,
+  options: RequestOptions,
+  { accept = 'application/json' }: { accept?: string } = {},
+) {
+  const serialized = body === undefined ? undefined : JSON.stringify(body);
+  const headers = { ...buildHeaders(options.apiKey), Accept: accept };
+  const trace = traceRequest({ method, url: endpoint, headers, body: serialized });
+
+  const response = await traced(trace, async () => {
+    const received = await cassetteFetch(endpoint, {
+      method,
+      body: serialized,
+      headers,
+      signal: options.signal,
+      dispatcher: options.dispatcher,
+    });
+    trace.response(received.status, received.headers);
+    if (!received.ok) {
+      const text = await received.text();
+      throw new KapaApiError(
+        received.status,
+        text,
+        parseRetryAfter(received.headers.get('retry-after')),
+      );
+    }
+    return received;
   });
+  return { response, trace };
+}
 
-  return { streamed: false, data };
+/** Marks the exchange as failed when `run` throws, keeping the original error. */
+async function traced<T>(trace: TraceExchange, run: () => Promise<T>) {
+  try {
+    return await run();
+  } catch (error) {
+    trace.fail(error);
+    throw error;
+  }
+}
+
+function describeTraceEvent(event: KapaStreamEvent): Record<string, unknown> {
+  switch (event.type) {
+    case 'answer':
+      return { chars: event.text.length };
+    case 'sources':
+      return { count: event.sources.length };
+    case 'identifiers':
+      return { threadId: event.threadId, questionAnswerId: event.questionAnswerId };
+    case 'error':
+      return { message: event.message };
+    default:
+      return {};
+  }
+}
+
+async function requestJson(
+  endpoint: string,
+  method: string,
+  body: unknown,
+  options: RequestOptions,
+): Promise<any> {
+  return withDeadline(options, (scoped, touch) =>
+    withRetry(
+      async () => {
+        touch();
+        const { response, trace } = await request(endpoint, method, body, scoped);
+        return traced(trace, async () => {
+          const text = await response.text();
+          trace.finish(text);
+          if (!text) return {};
+          try {
+            return JSON.parse(text);
+          } catch {
+            throw new Error(`Unexpected response payload: ${text.slice(0, 400)}`);
+          }
+        });
+      },
+      {
+        policy: options.retry,
+        signal: scoped.signal,
+        onRetry: options.onRetry,
+        classify: classifyError,
+      },
+    ),
+  );
+}
+
+/**
+ * Runs a request under the caller's signal plus the overall and idle timeouts.
+ * `touch` restarts the idle timer; abort reasons are rethrown in place of undici's errors.
+ */
+async function withDeadline<T>(
+  options: RequestOptions,
+  run: (scoped: RequestOptions, touch: () => void) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  const parent = options.signal;
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) onParentAbort();
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const { timeoutMs = 0, idleTimeoutMs = 0 } = options;
+  const overallTimer =
+    timeoutMs > 0
+      ? setTimeout(
+          () => controller.abort(new KapaTimeoutError(`Request timed out after ${formatDuration(timeoutMs)}.`)),
+          timeoutMs,
+        )
+      : undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    if (idleTimeoutMs <= 0 || controller.signal.aborted) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(
+      () =>
+        controller.abort(
+          new KapaTimeoutError(`No data received from Kapa for ${formatDuration(idleTimeoutMs)}.`),
+        ),
+      idleTimeoutMs,
+    );
+  };
+
+  try {
+    return await run({ ...options, signal: controller.signal }, touch);
+  } catch (error) {
+    const reason = controller.signal.reason;
+    if (controller.signal.aborted && reason instanceof Error) throw reason;
+    throw error;
+  } finally {
+    clearTimeout(overallTimer);
+    clearTimeout(idleTimer);
+    parent?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+function classifyError(error: unknown): RetryDecision {
+  if (error instanceof KapaApiError) {
+    return {
+      retry: isRetryableStatus(error.status),
+      reason: `HTTP ${error.status}`,
+      status: error.status,
+      delayMs: error.retryAfterMs,
+    };
+  }
+  const code = (error as any)?.cause?.code ?? (error as any)?.code;
+  if (typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code)) {
+    return { retry: true, reason: code };
+  }
+  if (error instanceof TypeError && ['fetch failed', 'terminated'].includes(error.message)) {
+    return { retry: true, reason: 'network error' };
+  }
+  return { retry: false, reason: 'non-retryable error' };
 }
@@ -0,0 +1,136 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { appendFile, mkdtemp, readFile, writeFile } from 'node:fs/promises';
+
+const { parseBatchInput, prepareBatchOutput, runBatch } = await import('./batch.js');
+const { KapaClient } = await import('./client.js');
+const { startMockServer } = await import('./mock-server.js');
+type BatchItem = import('./batch.js').BatchItem;
+
+const answerFor = (prompt: string) => ({
+  answer: `re: ${prompt}`,
+  citations: [],
+  followUps: [],
+  threadId: `t-${prompt}`,
+  questionAnswerId: `qa-${prompt}`,
+  raw: {},
+  streamed: false,
+});
+
+test('parses text and JSONL inputs with stable ids', () => {
+  const text = parseBatchInput('# header\nfirst question\n\n  second question  \n', 'txt');
+  assert.deepEqual(
+    text.map((item) => [item.id, item.prompt]),
+    [
+      ['line-2', 'first question'],
+      ['line-4', 'second question'],
+    ],
+  );
+
+  const rows = parseBatchInput(
+    [
+      '{"id": 7, "prompt": "a", "metadata": {"team": "support"}, "thread": "t1", "profile": "prod"}',
+      '{"question": "b"}',
+    ].join('\n'),
+    'jsonl',
+  );
+  assert.deepEqual(rows[0], {
+    id: '7',
+    line: 1,
+    prompt: 'a',
+    metadata: { team: 'support' },
+    threadId: 't1',
+    profile: 'prod',
+  });
+  assert.equal(rows[1].id, 'line-2');
+
+  assert.throws(() => parseBatchInput('{"prompt": "a"}\nnot json', 'jsonl'), /Line 2 is not valid JSON/);
+  assert.throws(() => parseBatchInput('{"id": 1, "prompt": "a"}\n{"id": 1, "prompt": "b"}', 'jsonl'), /repeats id "1"/);
+});
+
+test('runs with bounded concurrency and records per-row errors', async () => {
+  const items = parseBatchInput('q1\nq2\nq3\nfail\nq5', 'txt');
+  let inFlight = 0;
+  let peak = 0;
+  const results: Array<{ id: string; error?: string; answer?: string }> = [];
+
+  const progress = await runBatch(items, {
+    concurrency: 2,
+    ask: async (item: BatchItem) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      if (item.prompt === 'fail') throw new Error('Kapa API error 500: boom');
+      return answerFor(item.prompt);
+    },
+    onResult: (result) => {
+      results.push(result);
+    },
+  });
+
+  assert.equal(peak, 2);
+  assert.deepEqual(progress, { total: 5, completed: 5, failed: 1, inFlight: 0 });
+  assert.equal(results.find((result) => result.id === 'line-4')?.error, 'Kapa API error 500: boom');
+  assert.equal(results.find((result) => result.id === 'line-1')?.answer, 're: q1');
+});
+
+test('spaces request starts to honour the rate limit', async () => {
+  const items = parseBatchInput('a\nb\nc', 'txt');
+  const starts: number[] = [];
+  await runBatch(items, {
+    concurrency: 3,
+    ratePerMinute: 60_000 / 40,
+    ask: async (item: BatchItem) => {
+      starts.push(Date.now());
+      return answerFor(item.prompt);
+    },
+  });
+  assert.ok(starts[2] - starts[0] >= 75, `starts too close: ${starts.map((t) => t - starts[0])}`);
+});
+
+test('resuming skips successful rows but retries failures', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'kapa-batch-test-'));
+  const output = path.join(dir, 'results.jsonl');
+  const items = parseBatchInput('q1\nq2\nq3\nq4', 'txt');
+  await writeFile(
+    output,
+    [
+      JSON.stringify({ id: 'line-1', prompt: 'q1', answer: 'ok' }),
+      JSON.stringify({ id: 'line-2', prompt: 'q2', error: 'timeout' }),
+      '{"id": "line-3", "answ',
+    ].join('\n'),
+  );
+
+  const server = await startMockServer();
+  try {
+    const client = new KapaClient({
+      apiKey: 'sk-test',
+      projectId: 'demo',
+      integrationId: 'cli',
+      baseUrl: server.url,
+    });
+    const completed = await prepareBatchOutput(output, true);
+    assert.deepEqual([...completed], ['line-1']);
+    const pending = items.filter((item) => !completed.has(item.id));
+    await runBatch(pending, {
+      ask: (item: BatchItem, signal?: AbortSignal) => client.ask(item.prompt, { stream: false, signal }),
+      onResult: (result) => appendFile(output, `${JSON.stringify(result)}\n`),
+    });
+    assert.deepEqual(server.requests.map((request) => request.body.query).sort(), ['q2', 'q3', 'q4']);
+  } finally {
+    await server.close();
+  }
+
+  const raw = await readFile(output, 'utf8');
+  assert.ok(raw.endsWith('\n'));
+  const rows = raw.trimEnd().split('\n').map((line) => JSON.parse(line));
+  assert.deepEqual(rows.map((row) => row.id).sort(), ['line-1', 'line-2', 'line-3', 'line-4']);
+  assert.ok(rows.every((row) => row.answer && !row.error));
+
+  const fresh = path.join(dir, 'missing.jsonl');
+  assert.equal((await prepareBatchOutput(fresh, true)).size, 0);
+  assert.equal(await readFile(fresh, 'utf8'), '');
+});
@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KapaAnswer } from './client.js';
+import { sleep } from './retry.js';
+import { writeFileAtomic } from './storage.js';
+import { timestamp } from './utils.js';
+
+export interface BatchItem {
+  id: string;
+  /** 1-based line number in the input file. */
+  line: number;
+  prompt: string;
+  metadata?: Record<string, unknown>;
+  threadId?: string;
+  profile?: string;
+}
+
+export interface BatchResult {
+  id: string;
+  line: number;
+  prompt: string;
+  profile?: string;
+  answer?: string;
+  citations?: Array<Record<string, any>>;
+  followUps?: KapaAnswer['followUps'];
+  threadId?: string;
+  questionAnswerId?: string;
+  latencyMs: number;
+  error?: string;
+  timestamp: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  inFlight: number;
+}
+
+export interface RunBatchOptions {
+  ask: (item: BatchItem, signal?: AbortSignal) => Promise<KapaAnswer>;
+  concurrency?: number;
+  /** Maximum number of requests started per minute; unlimited when unset. */
+  ratePerMinute?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchProgress) => void;
+  onResult?: (result: BatchResult) => void | Promise<void>;
+}
+
+const PROMPT_FIELDS = ['prompt', 'question', 'query'];
+
+/**
+ * Reads prompts from a `.jsonl` file (one object per line with `prompt`, and optionally
+ * `id`, `metadata`, `thread` and `profile`) or from plain text, one prompt per line.
+ * Blank lines and `#` comments are skipped in text files.
+ */
+export function parseBatchInput(content: string, format: 'jsonl' | 'txt'): BatchItem[] {
+  const items: BatchItem[] = [];
+  const seen = new Set<string>();
+  content.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = idx + 1;
+    const text = rawLine.trim();
+    if (!text || (format === 'txt' && text.startsWith('#'))) return;
+
+    let item: BatchItem;
+    if (format === 'txt') {
+      item = { id: `line-${line}`, line, prompt: text };
+    } else {
+      let row: any;
+      try {
+        row = JSON.parse(text);
+      } catch {
+        throw new Error(`Line ${line} is not valid JSON.`);
+      }
+      if (typeof row === 'string') row = { prompt: row };
+      const promptField = PROMPT_FIELDS.find((field) => typeof row?.[field] === 'string');
+      const prompt = promptField ? String(row[promptField]).trim() : '';
+      if (!prompt) {
+        throw new Error(`Line ${line} has no "prompt" field.`);
+      }
+      if (row.metadata !== undefined && (typeof row.metadata !== 'object' || Array.isArray(row.metadata))) {
+        throw new Error(`Line ${line}: "metadata" must be an object.`);
+      }
+      item = {
+        id: row.id !== undefined ? String(row.id) : `line-${line}`,
+        line,
+        prompt,
+        metadata: row.metadata ?? undefined,
+        threadId: row.thread ?? row.threadId ?? row.thread_id ?? undefined,
+        profile: row.profile ?? undefined,
+      };
+    }
+
+    if (seen.has(item.id)) {
+      throw new Error(`Line ${line} repeats id "${item.id}"; ids must be unique for resuming.`);
+    }
+    seen.add(item.id);
+    items.push(item);
+  });
+  return items;
+}
+
+export function detectBatchFormat(file: string): 'jsonl' | 'txt' {
+  const ext = path.extname(file).toLowerCase();
+  return ext === '.jsonl' || ext === '.ndjson' || ext === '.json' ? 'jsonl' : 'txt';
+}
+
+/**
+ * Readies `outputFile` for a run and returns the ids to skip. A fresh run truncates it. A
+ * resumed run rewrites it with only the rows answered successfully before: failed rows are
+ * retried and would otherwise sit next to their new result, and a line cut short by an
+ * interrupted run would be glued to the first new one.
+ */
+export async function prepareBatchOutput(outputFile: string, resume: boolean) {
+  const completed = new Set<string>();
+  let raw = '';
+  if (resume) {
+    try {
+      raw = await fs.readFile(outputFile, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+  const kept: string[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const result = JSON.parse(line) as Partial<BatchResult>;
+      if (result.id === undefined || result.error || completed.has(String(result.id))) continue;
+      completed.add(String(result.id));
+      kept.push(line);
+    } catch {
+      // A line cut short by an interrupted run is simply re-asked.
+    }
+  }
+  await writeFileAtomic(outputFile, kept.map((line) => `${line}\n`).join(''));
+  return completed;
+}
+
+/**
+ * Runs every item through `ask` with at most `concurrency` requests in flight and
+ * starts spaced to honour `ratePerMinute`. Errors are captured per row; aborting the
+ * signal stops new work and drops results of cancelled requests.
+ */
+export async function runBatch(items: BatchItem[], options: RunBatchOptions) {
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+  const waitForSlot = createRateLimiter(options.ratePerMinute);
+  const progress: BatchProgress = { total: items.length, completed: 0, failed: 0, inFlight: 0 };
+  const report = () => options.onProgress?.({ ...progress });
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < items.length && !options.signal?.aborted) {
+      const item = items[cursor++];
+      try {
+        await waitForSlot(options.signal);
+      } catch {
+        return;
+      }
+      progress.inFlight += 1;
+      report();
+
+      const started = performance.now();
+      const result = await options.ask(item, options.signal).then(
+        (answer) => toBatchResult(item, started, answer),
+        (error: any) =>
+          options.signal?.aborted
+            ? undefined
+            : toBatchResult(item, started, undefined, error?.message ?? String(error)),
+      );
+      progress.inFlight -= 1;
+      if (!result) {
+        report();
+        return;
+      }
+      progress.completed += 1;
+      if (result.error) progress.failed += 1;
+      await options.onResult?.(result);
+      report();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return progress;
+}
+
+function toBatchResult(
+  item: BatchItem,
+  started: number,
+  answer?: KapaAnswer,
+  error?: string,
+): BatchResult {
+  return {
+    id: item.id,
+    line: item.line,
+    prompt: item.prompt,
+    profile: item.profile,
+    answer: answer?.answer,
+    citations: answer?.citations,
+    followUps: answer?.followUps,
+    threadId: answer?.threadId ?? item.threadId,
+    questionAnswerId: answer?.questionAnswerId,
+    latencyMs: Math.round(performance.now() - started),
+    error,
+    timestamp: timestamp(),
+  };
+}
+
+function createRateLimiter(ratePerMinute?: number) {
+  if (!ratePerMinute || ratePerMinute <= 0) {
+    return async (_signal?: AbortSignal) => undefined;
+  }
+  const interval = 60_000 / ratePerMinute;
+  let nextStart = 0;
+  return async (signal?: AbortSignal) => {
+    const now = Date.now();
+    const wait = Math.max(0, nextStart - now);
+    nextStart = Math.max(now, nextStart) + interval;
+    if (wait) await sleep(wait, signal);
+  };
+}
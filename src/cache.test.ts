@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile, readdir, writeFile } from 'node:fs/promises';
+
+const dataRoot = await mkdtemp(path.join(os.tmpdir(), 'kapa-cache-test-'));
+process.env.KAPA_DATA_DIR = dataRoot;
+process.env.KAPA_HISTORY_KEY = 'unit-cache-secret';
+delete process.env.KAPA_ALLOW_PLAINTEXT_HISTORY;
+
+const {
+  buildCacheKey,
+  clearCache,
+  getCacheStats,
+  listCachedAnswers,
+  pruneCache,
+  readCachedAnswer,
+  writeCachedAnswer,
+} = await import('./cache.js');
+const { appendHistory, readHistory } = await import('./history.js');
+
+const HOUR = 3_600_000;
+const base = { projectId: 'p1', integrationId: 'i1', prompt: 'How do I rotate keys?' };
+
+test('cache keys cover every answer-changing parameter', () => {
+  const key = buildCacheKey({ ...base, metadata: { team: 'docs', env: 'prod' } });
+  assert.equal(key, buildCacheKey({ ...base, metadata: { env: 'prod', team: 'docs' } }));
+  assert.notEqual(key, buildCacheKey({ ...base, metadata: { env: 'dev', team: 'docs' } }));
+  assert.notEqual(buildCacheKey(base), buildCacheKey({ ...base, temperature: 0.2 }));
+  assert.notEqual(buildCacheKey(base), buildCacheKey({ ...base, projectId: 'p2' }));
+  assert.notEqual(buildCacheKey(base), buildCacheKey({ ...base, prompt: 'How do I rotate keys' }));
+});
+
+test('answers are stored encrypted and expire after their TTL', async () => {
+  await clearCache();
+  const key = buildCacheKey(base);
+  const now = Date.parse('2024-05-01T00:00:00Z');
+  const data = { answer: 'Create a new key, then revoke the old one.', thread_id: 't1' };
+  await writeCachedAnswer({ key, profile: 'default', prompt: base.prompt, data }, HOUR, now);
+
+  const [file] = await readdir(path.join(dataRoot, 'cache'));
+  const raw = await readFile(path.join(dataRoot, 'cache', file), 'utf8');
+  assert.ok(!raw.includes('revoke'));
+  assert.match(JSON.parse(raw).payload, /^enc:v2:/);
+
+  const hit = await readCachedAnswer(key, now + HOUR - 1);
+  assert.deepEqual(hit?.data, data);
+  assert.equal(hit?.profile, 'default');
+  assert.equal(await readCachedAnswer(key, now + HOUR), null);
+});
+
+test('stats, list and prune report and drop expired or corrupt entries', async () => {
+  await clearCache();
+  const now = Date.parse('2024-05-01T00:00:00Z');
+  const fresh = buildCacheKey({ ...base, prompt: 'fresh' });
+  const stale = buildCacheKey({ ...base, prompt: 'stale' });
+  await writeCachedAnswer({ key: fresh, profile: 'default', prompt: 'fresh', data: {} }, 2 * HOUR, now);
+  await writeCachedAnswer({ key: stale, profile: 'default', prompt: 'stale', data: {} }, HOUR, now - HOUR);
+  await writeFile(path.join(dataRoot, 'cache', `${'0'.repeat(64)}.json`), 'not json');
+
+  const listed = await listCachedAnswers(now);
+  assert.deepEqual(
+    listed.map((entry) => [entry.prompt, entry.expired]),
+    [
+      ['fresh', false],
+      ['stale', true],
+    ],
+  );
+  const stats = await getCacheStats(now);
+  assert.deepEqual([stats.entries, stats.expired, stats.unreadable], [2, 1, 0]);
+
+  assert.equal(await pruneCache(now), 2);
+  assert.deepEqual(
+    (await listCachedAnswers(now)).map((entry) => entry.prompt),
+    ['fresh'],
+  );
+});
+
+test('clearing the cache leaves history alone', async () => {
+  await clearCache();
+  await appendHistory({ timestamp: '2024-05-01T00:00:00Z', profile: 'default', prompt: 'kept', response: 'yes' });
+  await writeCachedAnswer({ key: buildCacheKey(base), profile: 'default', prompt: base.prompt, data: {} }, HOUR);
+  assert.equal(await clearCache(), 1);
+  assert.equal((await getCacheStats()).entries, 0);
+  assert.deepEqual(
+    (await readHistory(5)).map((entry) => entry.prompt),
+    ['kept'],
+  );
+});
@@ -0,0 +1,232 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { decodeSecret, encodeSecret } from './security.js';
+import { writeFileAtomic } from './storage.js';
+import { createLogger } from './trace.js';
+
+export interface CacheKeyInput {
+  baseUrl?: string;
+  projectId?: string;
+  integrationId?: string;
+  prompt: string;
+  temperature?: number;
+  metadata?: Record<string, unknown>;
+  userIdentifier?: string;
+}
+
+export interface CachedAnswer {
+  key: string;
+  profile: string;
+  prompt: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Raw API response, replayed as if it had just been received. */
+  data: unknown;
+}
+
+export interface CacheListing {
+  key: string;
+  profile?: string;
+  prompt?: string;
+  createdAt: string;
+  expiresAt: string;
+  expired: boolean;
+  /** False when the entry cannot be decrypted with the current key. */
+  readable: boolean;
+  bytes: number;
+}
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  expired: number;
+  unreadable: number;
+  bytes: number;
+  oldest?: string;
+  newest?: string;
+}
+
+// On disk each entry is its own file; only the timestamps stay readable so stats and
+// prune work without the history key.
+interface CacheFile {
+  createdAt: string;
+  expiresAt: string;
+  payload: string;
+}
+
+const CACHE_DIR = path.join(
+  process.env.KAPA_DATA_DIR ?? path.join(os.homedir(), '.local', 'share', 'kapa-cli'),
+  'cache',
+);
+const ENTRY_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+let cacheDisabledMessage: string | null = null;
+const log = createLogger('cache');
+
+export function getCachePath() {
+  return CACHE_DIR;
+}
+
+/**
+ * Cache key for a new-thread question. Everything that can change the answer is part
+ * of the key; metadata is compared independently of key order.
+ */
+export function buildCacheKey(input: CacheKeyInput) {
+  const metadata = Object.fromEntries(
+    Object.entries(input.metadata ?? {}).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  const material = JSON.stringify([
+    input.baseUrl ?? '',
+    input.projectId ?? '',
+    input.integrationId ?? '',
+    input.prompt,
+    input.temperature ?? null,
+    metadata,
+    input.userIdentifier ?? null,
+  ]);
+  return createHash('sha256').update(material).digest('hex');
+}
+
+export async function readCachedAnswer(key: string, now = Date.now()): Promise<CachedAnswer | null> {
+  const file = await readCacheFile(entryPath(key));
+  if (!file || Date.parse(file.expiresAt) <= now) {
+    log.debug(file ? 'expired' : 'miss', { key: key.slice(0, 12) });
+    return null;
+  }
+  log.debug('hit', { key: key.slice(0, 12), createdAt: file.createdAt });
+  return decodeEntry(file);
+}
+
+/**
+ * Stores an answer for `ttlMs`. Like history, caching switches itself off for the rest of
+ * the process (with one warning) when no encryption key is configured.
+ */
+export async function writeCachedAnswer(
+  entry: Pick<CachedAnswer, 'key' | 'profile' | 'prompt' | 'data'>,
+  ttlMs: number,
+  now = Date.now(),
+) {
+  if (cacheDisabledMessage || ttlMs <= 0) return;
+  const createdAt = new Date(now).toISOString();
+  const expiresAt = new Date(now + ttlMs).toISOString();
+  let payload: string;
+  try {
+    payload = encodeSecret(JSON.stringify({ ...entry, createdAt, expiresAt }), 'history');
+  } catch (error: any) {
+    cacheDisabledMessage = error?.message ?? 'Answer cache disabled.';
+    process.stderr.write(`[kapa] ${cacheDisabledMessage}\n`);
+    return;
+  }
+  const file: CacheFile = { createdAt, expiresAt, payload };
+  await writeFileAtomic(entryPath(entry.key), `${JSON.stringify(file)}\n`);
+}
+
+/** All entries, newest first. Prompts are only filled in for entries that decrypt. */
+export async function listCachedAnswers(now = Date.now()): Promise<CacheListing[]> {
+  const listings: CacheListing[] = [];
+  for (const name of await readEntryNames()) {
+    const target = path.join(CACHE_DIR, name);
+    const file = await readCacheFile(target);
+    if (!file) continue;
+    const entry = decodeEntry(file);
+    listings.push({
+      key: name.slice(0, -'.json'.length),
+      profile: entry?.profile,
+      prompt: entry?.prompt,
+      createdAt: file.createdAt,
+      expiresAt: file.expiresAt,
+      expired: Date.parse(file.expiresAt) <= now,
+      readable: Boolean(entry),
+      bytes: (await fs.stat(target)).size,
+    });
+  }
+  return listings.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getCacheStats(now = Date.now()): Promise<CacheStats> {
+  const listings = await listCachedAnswers(now);
+  return {
+    path: CACHE_DIR,
+    entries: listings.length,
+    expired: listings.filter((listing) => listing.expired).length,
+    unreadable: listings.filter((listing) => !listing.readable).length,
+    bytes: listings.reduce((total, listing) => total + listing.bytes, 0),
+    oldest: listings.at(-1)?.createdAt,
+    newest: listings[0]?.createdAt,
+  };
+}
+
+/**
+ * Deletes expired and corrupt entries. Entries that merely fail to decrypt are kept, since
+ * they may belong to a different KAPA_HISTORY_KEY. Returns the number of removed files.
+ */
+export async function pruneCache(now = Date.now()) {
+  let removed = 0;
+  for (const name of await readEntryNames()) {
+    const target = path.join(CACHE_DIR, name);
+    const file = await readCacheFile(target);
+    if (file && Date.parse(file.expiresAt) > now) continue;
+    await removeFile(target);
+    removed += 1;
+  }
+  return removed;
+}
+
+/** Removes every cached answer. Local history is not affected. */
+export async function clearCache() {
+  const names = await readEntryNames();
+  for (const name of names) {
+    await removeFile(path.join(CACHE_DIR, name));
+  }
+  return names.length;
+}
+
+function entryPath(key: string) {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+async function readEntryNames() {
+  try {
+    return (await fs.readdir(CACHE_DIR)).filter((name) => ENTRY_PATTERN.test(name));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readCacheFile(target: string): Promise<CacheFile | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(target, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    const file = JSON.parse(raw) as CacheFile;
+    if (typeof file.payload !== 'string' || Number.isNaN(Date.parse(file.expiresAt))) return null;
+    return file;
+  } catch {
+    return null;
+  }
+}
+
+function decodeEntry(file: CacheFile) {
+  const decoded = decodeSecret(file.payload, 'history');
+  if (!decoded) return null;
+  try {
+    return JSON.parse(decoded) as CachedAnswer;
+  } catch {
+    return null;
+  }
+}
+
+async function removeFile(target: string) {
+  try {
+    await fs.unlink(target);
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readdir, readFile } from 'node:fs/promises';
+
+const { sendChat, searchSources } = await import('./api.js');
+const { cassetteKey, getCassetteMode, KapaCassetteError, resetCassetteCounters } = await import('./cassette.js');
+const { startMockServer } = await import('./mock-server.js');
+
+const chat = (baseUrl: string, prompt: string, onStreamEvent?: (event: any) => void) =>
+  sendChat({
+    apiKey: 'sk-live-secret',
+    baseUrl,
+    projectId: 'demo',
+    integrationId: 'demo',
+    prompt,
+    stream: true,
+    retry: { maxAttempts: 1 },
+    onStreamEvent,
+  });
+
+async function withEnv<T>(name: 'KAPA_RECORD' | 'KAPA_REPLAY', value: string, run: () => Promise<T>) {
+  process.env[name] = value;
+  resetCassetteCounters();
+  try {
+    return await run();
+  } finally {
+    delete process.env[name];
+  }
+}
+
+test('records streamed answers without the API key and replays them offline', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'kapa-cassette-test-'));
+  const server = await startMockServer({
+    chunkDelayMs: 40,
+    script: [{ answer: 'Rotate the key then revoke it', sources: [] }],
+  });
+  const recorded = await withEnv('KAPA_RECORD', dir, () => chat(server.url, 'How do I rotate keys?'));
+  await server.close();
+
+  const [name] = await readdir(dir);
+  const raw = await readFile(path.join(dir, name), 'utf8');
+  assert.ok(!raw.includes('sk-live-secret'));
+  const cassette = JSON.parse(raw);
+  assert.equal(cassette.request.headers['X-API-KEY'], '[redacted]');
+  assert.equal(cassette.request.body.query, 'How do I rotate keys?');
+  assert.ok(cassette.response.chunks.length > 3);
+  assert.ok(cassette.response.chunks.slice(1).some((chunk: any) => chunk.delayMs >= 20));
+
+  const events: any[] = [];
+  const started = performance.now();
+  const replayed = await withEnv('KAPA_REPLAY', dir, () =>
+    chat('http://127.0.0.1:9', 'How do I rotate keys?', (event) => events.push(event)),
+  );
+  assert.deepEqual(replayed, recorded);
+  assert.equal(events.filter((event) => event.type === 'answer').length, 6);
+  assert.ok(performance.now() - started >= 150, 'replay keeps the recorded chunk timing');
+});
+
+test('replay fails loudly for requests that were never recorded', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'kapa-cassette-test-'));
+  await assert.rejects(
+    withEnv('KAPA_REPLAY', dir, () =>
+      searchSources({ apiKey: 'k', baseUrl: 'http://127.0.0.1:9', projectId: 'demo', query: 'sso' }),
+    ),
+    (error: any) =>
+      error instanceof KapaCassetteError &&
+      /No recorded response in .* for POST \/projects\/demo\/search\//.test(error.message),
+  );
+  assert.throws(
+    () => getCassetteMode({ KAPA_RECORD: dir, KAPA_REPLAY: dir }),
+    /cannot be set at the same time/,
+  );
+});
+
+test('cassette keys ignore JSON key order but not values', () => {
+  const base = { method: 'post', path: '/projects/p/chat/' };
+  assert.equal(
+    cassetteKey({ ...base, body: { query: 'hi', integration_id: 'i' } }),
+    cassetteKey({ ...base, method: 'POST', body: { integration_id: 'i', query: 'hi' } }),
+  );
+  assert.notEqual(cassetteKey({ ...base, body: { query: 'hi' } }), cassetteKey({ ...base, body: { query: 'hey' } }));
+  assert.notEqual(cassetteKey({ ...base, body: { query: 'hi' } }), cassetteKey({ method: 'GET', path: base.path }));
+});
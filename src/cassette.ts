@@ -0,0 +1,242 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetch, Response } from 'undici';
+import type { Dispatcher } from 'undici';
+import { sleep } from './retry.js';
+import { createLogger, redactHeaders } from './trace.js';
+
+/**
+ * HTTP record/replay for demos and deterministic tests.
+ *
+ * `KAPA_RECORD=<dir>` performs real requests and writes each request/response pair to
+ * `<dir>`; `KAPA_REPLAY=<dir>` serves them back without touching the network, chunk by
+ * chunk with the recorded delays so streamed answers look the same. Requests are matched
+ * on method, path and JSON body; the API key is never written to disk.
+ */
+
+export interface CassetteRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteChunk {
+  /** Milliseconds since the previous chunk (or since the request was sent). */
+  delayMs: number;
+  data: string;
+}
+
+export interface Cassette {
+  recordedAt: string;
+  request: CassetteRequest;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    chunks: CassetteChunk[];
+  };
+}
+
+export interface CassetteFetchInit {
+  method: string;
+  body?: string;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  dispatcher?: Dispatcher;
+}
+
+export class KapaCassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KapaCassetteError';
+  }
+}
+
+type CassetteMode = { mode: 'record' | 'replay'; dir: string };
+
+// Repeated identical requests (retries, the same question asked twice) get numbered
+// cassettes, consumed in order. Replay keeps serving the last one once they run out.
+const COUNTERS = new Map<string, number>();
+const log = createLogger('cassette');
+
+export function getCassetteMode(env: Record<string, string | undefined> = process.env): CassetteMode | null {
+  const record = env.KAPA_RECORD?.trim();
+  const replay = env.KAPA_REPLAY?.trim();
+  if (record && replay) {
+    throw new KapaCassetteError('KAPA_RECORD and KAPA_REPLAY cannot be set at the same time.');
+  }
+  if (record) return { mode: 'record', dir: path.resolve(record) };
+  if (replay) return { mode: 'replay', dir: path.resolve(replay) };
+  return null;
+}
+
+/**
+ * Drop-in for undici's `fetch` used by every API call. Without KAPA_RECORD/KAPA_REPLAY
+ * it is a plain fetch.
+ */
+export async function cassetteFetch(url: string, init: CassetteFetchInit): Promise<Response> {
+  const cassetteMode = getCassetteMode();
+  if (!cassetteMode) return fetch(url, init);
+
+  const request = describeRequest(url, init);
+  const matchKey = cassetteKey(request);
+  const count = (COUNTERS.get(matchKey) ?? 0) + 1;
+  COUNTERS.set(matchKey, count);
+
+  if (cassetteMode.mode === 'replay') {
+    const cassette = await loadCassette(cassetteMode.dir, matchKey, count);
+    if (!cassette) {
+      throw new KapaCassetteError(
+        `No recorded response in ${cassetteMode.dir} for ${request.method} ${request.path} ` +
+          `(cassette ${matchKey}). Record it with KAPA_RECORD=${cassetteMode.dir}.`,
+      );
+    }
+    log.debug(`replaying ${request.method} ${request.path}`, { cassette: matchKey, turn: count });
+    return replayResponse(cassette, init.signal);
+  }
+
+  log.debug(`recording ${request.method} ${request.path}`, { cassette: matchKey, turn: count });
+  const started = performance.now();
+  const response = await fetch(url, init);
+  return recordResponse(response, started, (chunks) =>
+    saveCassette(cassetteMode.dir, cassetteFileName(request.method, matchKey, count), {
+      recordedAt: new Date().toISOString(),
+      request,
+      response: {
+        status: response.status,
+        headers: redactHeaders(Object.fromEntries(response.headers)),
+        chunks,
+      },
+    }),
+  );
+}
+
+/** Stable identifier for a request: method, path (with query) and canonical JSON body. */
+export function cassetteKey(request: Pick<CassetteRequest, 'method' | 'path' | 'body'>) {
+  const material = `${request.method.toUpperCase()} ${request.path}\n${canonicalJson(request.body ?? null)}`;
+  return createHash('sha256').update(material).digest('hex').slice(0, 16);
+}
+
+/** Forgets how many times each request was seen, e.g. between tests. */
+export function resetCassetteCounters() {
+  COUNTERS.clear();
+}
+
+function describeRequest(url: string, init: CassetteFetchInit): CassetteRequest {
+  const parsed = new URL(url);
+  let body: unknown;
+  if (init.body !== undefined) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      body = init.body;
+    }
+  }
+  return {
+    method: init.method.toUpperCase(),
+    path: `${parsed.pathname}${parsed.search}`,
+    headers: redactHeaders(init.headers),
+    ...(body === undefined ? {} : { body }),
+  };
+}
+
+function recordResponse(response: Response, started: number, save: (chunks: CassetteChunk[]) => Promise<void>) {
+  if (!response.body) {
+    return save([]).then(() => response);
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: CassetteChunk[] = [];
+  let last = started;
+  let saved: Promise<void> | undefined;
+  const finish = () => (saved ??= save(chunks));
+
+  // Chunks are passed through as they arrive; the cassette is written when the body
+  // ends or the consumer stops early (e.g. after the SSE `done` event).
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        const tail = decoder.decode();
+        if (tail) chunks.push({ delayMs: 0, data: tail });
+        await finish();
+        controller.close();
+        return;
+      }
+      const now = performance.now();
+      chunks.push({ delayMs: Math.round(now - last), data: decoder.decode(value, { stream: true }) });
+      last = now;
+      controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await finish();
+      await reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, headers: response.headers });
+}
+
+function replayResponse(cassette: Cassette, signal?: AbortSignal) {
+  const { status, headers, chunks } = cassette.response;
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks[index++];
+      if (!chunk) {
+        controller.close();
+        return;
+      }
+      if (chunk.delayMs > 0) await sleep(chunk.delayMs, signal);
+      controller.enqueue(encoder.encode(chunk.data));
+    },
+  });
+  const nullBody = status === 204 || status === 304;
+  return new Response(nullBody ? null : body, { status, headers });
+}
+
+async function loadCassette(dir: string, matchKey: string, count: number) {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new KapaCassetteError(`Cassette directory ${dir} does not exist.`);
+    }
+    throw error;
+  }
+  const recorded = names
+    .map((name) => name.match(new RegExp(`^[a-z]+-${matchKey}-(\\d+)\\.json$`)))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .sort((a, b) => Number(a[1]) - Number(b[1]));
+  if (!recorded.length) return null;
+  const chosen = recorded.find((match) => Number(match[1]) === count) ?? recorded.at(-1)!;
+  const raw = await fs.readFile(path.join(dir, chosen[0]), 'utf8');
+  try {
+    return JSON.parse(raw) as Cassette;
+  } catch {
+    throw new KapaCassetteError(`Cassette ${path.join(dir, chosen[0])} is not valid JSON.`);
+  }
+}
+
+async function saveCassette(dir: string, name: string, cassette: Cassette) {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, name), `${JSON.stringify(cassette, null, 2)}\n`, 'utf8');
+}
+
+function cassetteFileName(method: string, matchKey: string, count: number) {
+  return `${method.toLowerCase()}-${matchKey}-${count}.json`;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
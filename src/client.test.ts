@@ -0,0 +1,183 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+
+const configRoot = await mkdtemp(path.join(os.tmpdir(), 'kapa-client-test-'));
+process.env.KAPA_CONFIG_DIR = configRoot;
+process.env.KAPA_VAULT_KEY = 'unit-test-secret';
+
+const { KapaClient } = await import('./client.js');
+const { setConfigValue } = await import('./config.js');
+
+interface RecordedRequest {
+  url: string;
+  apiKey?: string;
+  body: any;
+}
+
+/**
+ * Answers every chat call with thread `t1`. Requests accepting text/event-stream get
+ * three SSE events; `holdStream` keeps the response open after the first event.
+ */
+async function startChatServer({ holdStream = false } = {}) {
+  const requests: RecordedRequest[] = [];
+  let closedByClient = false;
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        url: req.url ?? '',
+        apiKey: req.headers['x-api-key'] as string | undefined,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const turn = requests.length;
+      if (!String(req.headers.accept).includes('text/event-stream')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ answer: `answer ${turn}`, thread_id: 't1', question_answer_id: `qa${turn}` }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const send = (chunk: object) => res.write(`data: ${JSON.stringify({ chunk })}\n\n`);
+      send({ type: 'partial_answer', content: { text: 'Hel' } });
+      if (holdStream) {
+        res.on('close', () => (closedByClient = true));
+        return;
+      }
+      send({ type: 'partial_answer', content: { text: 'lo' } });
+      send({ type: 'identifiers', content: { thread_id: 't1', question_answer_id: 'qa-s' } });
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    get closedByClient() {
+      return closedByClient;
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+test('threads keep follow-up questions on the same conversation', async () => {
+  const server = await startChatServer();
+  try {
+    const client = new KapaClient({
+      apiKey: 'sk-test',
+      projectId: 'proj',
+      integrationId: 'integ',
+      baseUrl: server.baseUrl,
+    });
+    const thread = client.thread();
+    const first = await thread.ask('first question');
+    const second = await thread.ask('second question');
+
+    assert.equal(first.answer, 'answer 1');
+    assert.equal(first.questionAnswerId, 'qa1');
+    assert.equal(second.answer, 'answer 2');
+    assert.equal(thread.id, 't1');
+    assert.deepEqual(
+      server.requests.map((request) => request.url),
+      ['/projects/proj/chat/', '/threads/t1/chat/'],
+    );
+    assert.equal(server.requests[1].body.query, 'second question');
+  } finally {
+    await server.close();
+  }
+});
+
+test('stream() yields typed events and resolves a normalized answer', async () => {
+  const server = await startChatServer();
+  try {
+    const client = new KapaClient({ apiKey: 'sk-test', projectId: 'proj', integrationId: 'integ', baseUrl: server.baseUrl });
+    const stream = client.stream('hello');
+    const types: string[] = [];
+    let text = '';
+    for await (const event of stream) {
+      types.push(event.type);
+      if (event.type === 'answer') text += event.text;
+    }
+    const result = await stream.result;
+
+    assert.deepEqual(types, ['answer', 'answer', 'identifiers', 'done']);
+    assert.equal(text, 'Hello');
+    assert.equal(result.answer, 'Hello');
+    assert.equal(result.threadId, 't1');
+    assert.equal(result.questionAnswerId, 'qa-s');
+    assert.equal(result.streamed, true);
+  } finally {
+    await server.close();
+  }
+});
+
+test('breaking out of a stream cancels the request', async () => {
+  const server = await startChatServer({ holdStream: true });
+  try {
+    const client = new KapaClient({ apiKey: 'sk-test', projectId: 'proj', integrationId: 'integ', baseUrl: server.baseUrl });
+    const stream = client.stream('hello');
+    for await (const event of stream) {
+      assert.equal(event.type, 'answer');
+      break;
+    }
+    await assert.rejects(stream.result, { name: 'KapaCancelledError' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.ok(server.closedByClient);
+  } finally {
+    await server.close();
+  }
+});
+
+test('fromProfile resolves options over env over the stored profile', async () => {
+  const server = await startChatServer();
+  try {
+    await setConfigValue('apiKey', 'sk-profile');
+    await setConfigValue('projectId', 'profile-project');
+    await setConfigValue('integrationId', 'integ');
+    await setConfigValue('baseUrl', 'http://127.0.0.1:1');
+
+    const client = await KapaClient.fromProfile({
+      baseUrl: server.baseUrl,
+      env: { KAPA_PROJECT_ID: 'env-project' },
+    });
+    await client.ask('hello', { stream: false });
+
+    assert.equal(client.profile?.name, 'default');
+    assert.equal(server.requests[0].url, '/projects/env-project/chat/');
+    assert.equal(server.requests[0].apiKey, 'sk-profile');
+    await assert.rejects(KapaClient.fromProfile({ apiKey: '', env: {} }), /API key missing/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('storedProfileOnly ignores env overrides but falls back to KAPA_API_KEY', async () => {
+  const server = await startChatServer();
+  try {
+    await setConfigValue('projectId', 'keyless-project', { profile: 'keyless' });
+    await setConfigValue('integrationId', 'integ', { profile: 'keyless' });
+    await setConfigValue('baseUrl', server.baseUrl, { profile: 'keyless' });
+    const env = { KAPA_API_KEY: 'sk-env', KAPA_PROJECT_ID: 'env-project', KAPA_BASE_URL: 'http://127.0.0.1:1' };
+
+    const keyless = await KapaClient.fromProfile({ profile: 'keyless', storedProfileOnly: true, env });
+    await keyless.ask('hello', { stream: false });
+    assert.equal(server.requests[0].url, '/projects/keyless-project/chat/');
+    assert.equal(server.requests[0].apiKey, 'sk-env');
+
+    await setConfigValue('apiKey', 'sk-stored', { profile: 'keyless' });
+    const keyed = await KapaClient.fromProfile({ profile: 'keyless', storedProfileOnly: true, env });
+    await keyed.ask('hello', { stream: false });
+    assert.equal(server.requests[1].apiKey, 'sk-stored');
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,334 @@
+import type { Dispatcher } from 'undici';
+import {
+  fetchThread,
+  KapaCancelledError,
+  searchSources,
+  sendChat,
+  sendFeedback,
+} from './api.js';
+import type { FeedbackReaction, KapaStreamEvent, RequestOptions } from './api.js';
+import { loadConfig, resolveProfile } from './config.js';
+import type { ResolvedProfile } from './config.js';
+import { resolveProfileApiKey } from './credentials.js';
+import { normalizeResponse, normalizeSearchResults, normalizeThread } from './format.js';
+import type { NormalizedResponse, NormalizedThread, SearchResult } from './format.js';
+import { buildDispatcher } from './network.js';
+import type { RetryInfo, RetryPolicy } from './retry.js';
+
+export interface KapaClientOptions {
+  apiKey: string;
+  projectId?: string;
+  integrationId?: string;
+  baseUrl?: string;
+  stream?: boolean;
+  temperature?: number;
+  userIdentifier?: string;
+  metadata?: Record<string, unknown>;
+  retry?: Partial<RetryPolicy>;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  dispatcher?: Dispatcher;
+}
+
+export interface ProfileClientOptions extends Partial<KapaClientOptions> {
+  /** Config profile to load; defaults to the configured default profile. */
+  profile?: string;
+  proxy?: string;
+  caFile?: string;
+  insecureSkipVerify?: boolean;
+  /** Environment consulted for KAPA_* overrides. Pass `{}` to ignore the process env. */
+  env?: Record<string, string | undefined>;
+  /**
+   * Take the project, integration and base URL from the stored profile only, ignoring KAPA_* env
+   * vars and `.kaparc`. The profile's own key or helper wins over KAPA_API_KEY, which is still
+   * used when the profile has neither. Proxy and CA settings still apply. Used where the profile
+   * itself is the point, e.g. `kapa compare`.
+   */
+  storedProfileOnly?: boolean;
+}
+
+export interface AskOptions {
+  threadId?: string;
+  stream?: boolean;
+  metadata?: Record<string, unknown>;
+  temperature?: number;
+  userIdentifier?: string;
+  signal?: AbortSignal;
+  onStreamEvent?: (event: KapaStreamEvent) => void;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface KapaAnswer extends NormalizedResponse {
+  streamed: boolean;
+}
+
+export interface KapaStream extends AsyncIterable<KapaStreamEvent> {
+  /** Settles with the complete answer once the stream ends. */
+  readonly result: Promise<KapaAnswer>;
+  /** Stops the request; iteration ends and `result` rejects with KapaCancelledError. */
+  cancel(): void;
+}
+
+/**
+ * Programmatic access to the Kapa API. The CLI is built on the same client.
+ *
+ * ```ts
+ * const kapa = await KapaClient.fromProfile({ profile: 'prod' });
+ * const answer = await kapa.ask('How do I rotate keys?');
+ * for await (const event of kapa.stream('And for service accounts?', { threadId: answer.threadId })) {
+ *   if (event.type === 'answer') process.stdout.write(event.text);
+ * }
+ * ```
+ */
+export class KapaClient {
+  readonly options: Readonly<KapaClientOptions>;
+  /** Set when the client was created from a config profile. */
+  readonly profile?: ResolvedProfile;
+
+  constructor(options: KapaClientOptions, profile?: ResolvedProfile) {
+    if (!options.apiKey) {
+      throw new Error(
+        'API key missing. Set KAPA_API_KEY, run "kapa config set apiKey <value>" or configure apiKeyCommand/apiKeyFile.',
+      );
+    }
+    this.options = { ...options };
+    this.profile = profile;
+  }
+
+  /**
+   * Builds a client from the CLI config. Explicit options win over KAPA_* env vars,
+   * which win over a project `.kaparc` and then the stored profile. The profile's `apiKeyCommand`/`apiKeyFile` only
+   * run when no key was passed or set in the environment.
+   */
+  static async fromProfile(options: ProfileClientOptions = {}) {
+    const env = options.env ?? process.env;
+    const config = await loadConfig();
+    const resolved = resolveProfile(
+      options.storedProfileOnly ? { ...config, project: null } : config,
+      options.profile,
+    );
+    const values = resolved.values;
+    const target = options.storedProfileOnly ? {} : env;
+
+    const baseUrl = options.baseUrl ?? target.KAPA_BASE_URL ?? values.baseUrl;
+    const dispatcher =
+      options.dispatcher ??
+      (await buildDispatcher(
+        baseUrl,
+        {
+          proxy: options.proxy ?? env.KAPA_PROXY ?? values.proxy,
+          caFile: options.caFile ?? env.KAPA_CA_FILE ?? values.caFile,
+          insecureSkipVerify: options.insecureSkipVerify ?? values.insecureSkipVerify,
+        },
+        env,
+      ));
+    const profileApiKey = async () => {
+      const { apiKey } = await resolveProfileApiKey(values);
+      return apiKey || (options.storedProfileOnly ? env.KAPA_API_KEY ?? '' : apiKey);
+    };
+
+    return new KapaClient(
+      {
+        apiKey: options.apiKey ?? target.KAPA_API_KEY ?? (await profileApiKey()),
+        projectId: options.projectId ?? target.KAPA_PROJECT_ID ?? values.projectId ?? '',
+        integrationId: options.integrationId ?? target.KAPA_INTEGRATION_ID ?? values.integrationId ?? '',
+        baseUrl,
+        stream: options.stream ?? values.stream,
+        temperature: options.temperature ?? values.temperature ?? undefined,
+        userIdentifier: options.userIdentifier,
+        metadata: Object.keys(values.metadata).length
+          ? { ...values.metadata, ...options.metadata }
+          : options.metadata,
+        retry: {
+          maxAttempts: options.retry?.maxAttempts ?? values.maxAttempts,
+          baseDelayMs: options.retry?.baseDelayMs ?? values.retryBaseDelay,
+          maxDelayMs: options.retry?.maxDelayMs ?? values.retryMaxDelay,
+        },
+        timeoutMs: options.timeoutMs ?? values.timeout,
+        idleTimeoutMs: options.idleTimeoutMs ?? values.idleTimeout,
+        dispatcher,
+      },
+      resolved,
+    );
+  }
+
+  async ask(prompt: string, options: AskOptions = {}): Promise<KapaAnswer> {
+    const stream = options.stream ?? this.options.stream ?? false;
+    const response = await sendChat({
+      ...this.requestOptions(options),
+      projectId: this.options.projectId,
+      integrationId: this.options.integrationId ?? '',
+      prompt,
+      threadId: options.threadId,
+      metadata: { ...this.options.metadata, ...options.metadata },
+      temperature: options.temperature ?? this.options.temperature,
+      userIdentifier: options.userIdentifier ?? this.options.userIdentifier,
+      stream,
+      onStreamEvent: options.onStreamEvent,
+    });
+    return toAnswer(response.data, response.streamed, options.threadId);
+  }
+
+  /**
+   * Streams an answer as typed events. Breaking out of the loop cancels the request.
+   */
+  stream(prompt: string, options: Omit<AskOptions, 'stream'> = {}): KapaStream {
+    const controller = new AbortController();
+    const queue: KapaStreamEvent[] = [];
+    let finished = false;
+    let failure: unknown;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+
+    const onParentAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onParentAbort, { once: true });
+
+    const result = this.ask(prompt, {
+      ...options,
+      stream: true,
+      signal: controller.signal,
+      onStreamEvent: (event) => {
+        options.onStreamEvent?.(event);
+        queue.push(event);
+        notify();
+      },
+    }).then(
+      (answer) => {
+        finished = true;
+        notify();
+        return answer;
+      },
+      (error) => {
+        finished = true;
+        failure = error;
+        notify();
+        throw error;
+      },
+    );
+    result
+      .catch(() => undefined)
+      .finally(() => options.signal?.removeEventListener('abort', onParentAbort));
+
+    const cancel = () => controller.abort(new KapaCancelledError());
+
+    return {
+      result,
+      cancel,
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (true) {
+            if (queue.length) {
+              yield queue.shift()!;
+              continue;
+            }
+            if (finished) {
+              if (failure && !(failure instanceof KapaCancelledError)) throw failure;
+              return;
+            }
+            await new Promise<void>((resolve) => {
+              wake = resolve;
+            });
+          }
+        } finally {
+          if (!finished) cancel();
+        }
+      },
+    };
+  }
+
+  /** Returns a conversation handle that keeps follow-up questions on one thread. */
+  thread(threadId?: string) {
+    return new KapaThread(this, threadId);
+  }
+
+  async search(query: string, options: { limit?: number; signal?: AbortSignal } = {}) {
+    if (!this.options.projectId) {
+      throw new Error('A project id is required to search sources.');
+    }
+    const data = await searchSources({
+      ...this.requestOptions(options),
+      projectId: this.options.projectId,
+      integrationId: this.options.integrationId || undefined,
+      query,
+      limit: options.limit,
+    });
+    const results: SearchResult[] = normalizeSearchResults(data);
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  async getThread(threadId: string, options: { signal?: AbortSignal } = {}): Promise<NormalizedThread> {
+    const data = await fetchThread({ ...this.requestOptions(options), threadId });
+    return normalizeThread(data);
+  }
+
+  async feedback(
+    questionAnswerId: string,
+    reaction: FeedbackReaction,
+    options: { comment?: string; userIdentifier?: string; signal?: AbortSignal } = {},
+  ) {
+    return sendFeedback({
+      ...this.requestOptions(options),
+      questionAnswerId,
+      reaction,
+      comment: options.comment,
+      userIdentifier: options.userIdentifier ?? this.options.userIdentifier,
+    });
+  }
+
+  private requestOptions(
+    options: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {},
+  ): RequestOptions {
+    return {
+      apiKey: this.options.apiKey,
+      baseUrl: this.options.baseUrl,
+      retry: this.options.retry,
+      timeoutMs: this.options.timeoutMs,
+      idleTimeoutMs: this.options.idleTimeoutMs,
+      dispatcher: this.options.dispatcher,
+      signal: options.signal,
+      onRetry: options.onRetry,
+    };
+  }
+}
+
+/**
+ * A conversation bound to one thread. The id is learnt from the first answer.
+ */
+export class KapaThread {
+  constructor(
+    private readonly client: KapaClient,
+    public id?: string,
+  ) {}
+
+  async ask(prompt: string, options: Omit<AskOptions, 'threadId'> = {}) {
+    const answer = await this.client.ask(prompt, { ...options, threadId: this.id });
+    this.id = answer.threadId ?? this.id;
+    return answer;
+  }
+
+  stream(prompt: string, options: Omit<AskOptions, 'threadId' | 'stream'> = {}): KapaStream {
+    const stream = this.client.stream(prompt, { ...options, threadId: this.id });
+    const result = stream.result.then((answer) => {
+      this.id = answer.threadId ?? this.id;
+      return answer;
+    });
+    result.catch(() => undefined);
+    return {
+      result,
+      cancel: stream.cancel,
+      [Symbol.asyncIterator]: () => stream[Symbol.asyncIterator](),
+    };
+  }
+}
+
+function toAnswer(data: any, streamed: boolean, fallbackThreadId?: string): KapaAnswer {
+  const normalized = normalizeResponse(data ?? {});
+  return {
+    ...normalized,
+    threadId: normalized.threadId ?? fallbackThreadId,
+    streamed,
+  };
+}
@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import chalk from 'chalk';
+
+chalk.level = 0;
+const { chooseLayout, diffWords, renderComparison, renderWordDiff } = await import('./compare.js');
+
+test('diffs answers word by word', () => {
+  const segments = diffWords('Rotate keys from the dashboard.', 'Rotate keys from the CLI or dashboard.');
+  assert.deepEqual(segments, [
+    { type: 'same', text: 'Rotate keys from the ' },
+    { type: 'added', text: 'CLI or ' },
+    { type: 'same', text: 'dashboard.' },
+  ]);
+  assert.equal(
+    renderWordDiff(diffWords('Use the old token.', 'Use the new token.')),
+    'Use the [-old-]{+new+} token.',
+  );
+  assert.deepEqual(diffWords('same', 'same'), [{ type: 'same', text: 'same' }]);
+});
+
+test('chooses side-by-side only when every column fits', () => {
+  assert.equal(chooseLayout(120, 2), 'side');
+  assert.equal(chooseLayout(70, 2), 'stacked');
+  assert.equal(chooseLayout(120, 4), 'stacked');
+});
+
+test('renders each profile with its latency, citations and errors', () => {
+  const results = [
+    {
+      profile: 'public',
+      answer: 'Rotate keys from the dashboard.',
+      citations: [{ title: 'API keys', source_url: 'https://docs.example.com/keys' }],
+      latencyMs: 1200,
+    },
+    { profile: 'internal', answer: '', citations: [], latencyMs: 80, error: 'HTTP 403' },
+  ];
+
+  const side = renderComparison(results, 'side', 80).split('\n');
+  assert.match(side[0], /^public · 1\.2s\s+│ internal · failed$/);
+  assert.ok(side.some((line) => /Rotate keys from the dashboard\.\s+│ HTTP 403/.test(line)));
+  assert.ok(side.some((line) => line.includes('https://docs.example.com/keys')));
+
+  const stacked = renderComparison(results, 'stacked', 40);
+  assert.match(stacked, /public · 1\.2s\n─{40}\nRotate keys from the dashboard\./);
+  assert.match(stacked, /\n\ninternal · failed\n─{40}\nHTTP 403$/);
+});
@@ -0,0 +1,179 @@
+import chalk from 'chalk';
+import { describeSource } from './format.js';
+import { formatDuration } from './utils.js';
+
+export interface CompareResult {
+  profile: string;
+  answer: string;
+  citations: Array<Record<string, any>>;
+  threadId?: string;
+  questionAnswerId?: string;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export type CompareLayout = 'side' | 'stacked';
+
+const MIN_COLUMN_WIDTH = 36;
+const COLUMN_GAP = ' │ ';
+// LCS is quadratic; beyond this many tokens per side fall back to a whole-text replace.
+const MAX_DIFF_TOKENS = 4000;
+
+/**
+ * Word-level diff of two answers (longest common subsequence over words and the
+ * whitespace between them). Adjacent segments of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return mergeSegments([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  }
+
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] });
+    } else {
+      segments.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) segments.push({ type: 'added', text: b[j++] });
+  return mergeSegments(segments);
+}
+
+/**
+ * Shared words as plain text, removals as `[-…-]` and additions as `{+…+}` (the
+ * `git diff --word-diff` markers), coloured when the terminal supports it.
+ */
+export function renderWordDiff(segments: DiffSegment[]) {
+  const colour = chalk.level > 0;
+  return segments
+    .map((segment) => {
+      if (segment.type === 'same') return segment.text;
+      if (!segment.text.trim()) return segment.type === 'added' ? segment.text : '';
+      if (segment.type === 'removed') {
+        return colour ? chalk.red.strikethrough(segment.text) : `[-${segment.text}-]`;
+      }
+      return colour ? chalk.green(segment.text) : `{+${segment.text}+}`;
+    })
+    .join('');
+}
+
+export function chooseLayout(columns: number, count: number): CompareLayout {
+  const available = columns - COLUMN_GAP.length * (count - 1);
+  return count > 1 && available / count >= MIN_COLUMN_WIDTH ? 'side' : 'stacked';
+}
+
+export function renderComparison(results: CompareResult[], layout: CompareLayout, columns: number) {
+  if (layout === 'stacked') {
+    return results
+      .map((result) => renderPanel(result, Math.max(MIN_COLUMN_WIDTH, columns)).join('\n'))
+      .join('\n\n');
+  }
+
+  const columnWidth = Math.floor((columns - COLUMN_GAP.length * (results.length - 1)) / results.length);
+  const panels = results.map((result) => renderPanel(result, columnWidth));
+  const height = Math.max(...panels.map((panel) => panel.length));
+  const rows: string[] = [];
+  for (let row = 0; row < height; row++) {
+    const cells = panels.map((panel, idx) => {
+      const cell = panel[row] ?? '';
+      return idx === panels.length - 1 ? cell : padVisible(cell, columnWidth);
+    });
+    rows.push(cells.join(chalk.dim(COLUMN_GAP)).trimEnd());
+  }
+  return rows.join('\n');
+}
+
+function renderPanel(result: CompareResult, width: number) {
+  const status = result.error ? chalk.red('failed') : chalk.dim(formatDuration(result.latencyMs));
+  const lines = [`${chalk.bold(result.profile)} ${chalk.dim('·')} ${status}`, chalk.dim('─'.repeat(width))];
+  if (result.error) {
+    lines.push(...wrap(result.error, width).map((line) => chalk.red(line)));
+    return lines;
+  }
+  lines.push(...wrap(result.answer || '(empty answer)', width));
+  if (result.citations.length) {
+    lines.push('', chalk.dim('References:'));
+    result.citations.forEach((citation, idx) => {
+      const { title, url } = describeSource(citation, idx);
+      lines.push(...wrap(`${idx + 1}. ${title}`, width));
+      if (url && url !== title) lines.push(...wrap(`   ${url}`, width).map((line) => chalk.dim(line)));
+    });
+  }
+  return lines;
+}
+
+function wrap(text: string, width: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\r/g, '').split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > width) {
+        if (current) lines.push(current);
+        current = '';
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (current && current.length + 1 + rest.length > width) {
+        lines.push(current);
+        current = rest;
+      } else {
+        current = current ? `${current} ${rest}` : rest;
+      }
+    }
+    if (current || !lines.length || lines.at(-1) !== '') lines.push(current);
+  }
+  return lines;
+}
+
+function padVisible(text: string, width: number) {
+  const visible = text.replace(/\u001b\[[0-9;]*m/g, '').length;
+  return visible >= width ? text : text + ' '.repeat(width - visible);
+}
+
+function tokenize(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function mergeSegments(segments: DiffSegment[]) {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged.at(-1);
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
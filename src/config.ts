@@ -1,20 +1,76 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
-import { decodeSecret, encodeSecret, maskSecret } from './security.js';
+import {
+  decodeSecret,
+  encodeSecret,
+  isEncryptedValue,
+  maskSecret,
+  openWithPassphrase,
+  sealWithPassphrase,
+  tryDecodeSecret,
+} from './security.js';
+import { withFileLock, writeFileAtomic } from './storage.js';
+import { formatDuration, parseDuration } from './utils.js';
 
 export interface ProfileConfig {
   apiKey?: string;
+  apiKeyCommand?: string;
+  apiKeyFile?: string;
+  apiKeyCommandTimeout?: number;
   projectId?: string;
   integrationId?: string;
   baseUrl?: string;
   stream?: boolean;
   temperature?: number | null;
+  maxAttempts?: number;
+  retryBaseDelay?: number;
+  retryMaxDelay?: number;
+  proxy?: string;
+  caFile?: string;
+  insecureSkipVerify?: boolean;
+  timeout?: number;
+  idleTimeout?: number;
+  cache?: boolean;
+  cacheTtl?: number;
+  /** Sent with every question; `--metadata` pairs are merged on top. */
+  metadata?: Record<string, unknown>;
 }
 
 export interface CliConfig {
   defaultProfile: string;
   profiles: Record<string, ProfileConfig>;
+  /** Project-local `.kaparc` found from the working directory; never written by saveConfig. */
+  project?: ProjectConfig | null;
+}
+
+/** Keys a `.kaparc` file may override. Secrets and connection settings stay in the user config. */
+export type ProjectConfigKey = 'projectId' | 'integrationId' | 'metadata' | 'temperature';
+
+export interface ProjectConfig {
+  path: string;
+  /** Profile used when no `--profile` is given. */
+  profile?: string;
+  values: Pick<ProfileConfig, ProjectConfigKey>;
+}
+
+export type ValueSource = 'flag' | 'env' | 'kaparc' | 'config' | 'default';
+
+export interface ResolvedValue {
+  key: keyof ProfileConfig;
+  /** Display value; secrets and helper commands are masked. */
+  value: unknown;
+  source: ValueSource;
+  /** Env var name, `.kaparc` path or config profile the value came from. */
+  origin?: string;
+}
+
+export interface ConfigResolution {
+  profile: string;
+  profileSource: ValueSource;
+  profileOrigin?: string;
+  project: ProjectConfig | null;
+  values: ResolvedValue[];
 }
 
 export interface ResolvedProfile {
@@ -22,6 +78,44 @@ export interface ResolvedProfile {
   values: Required<ProfileConfig>;
 }
 
+/** Profiles as written by `kapa config export`. */
+export interface ConfigBundle {
+  kapaConfigExport: 1;
+  exportedAt: string;
+  /** True when secrets are included, each sealed with the export passphrase. */
+  sealed: boolean;
+  profiles: Record<string, ProfileConfig>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportChange {
+  key: keyof ProfileConfig;
+  /** Display values; API keys are masked, helper commands and files are shown in full. */
+  from?: unknown;
+  to?: unknown;
+  /** True when an existing local value would be overwritten or removed. */
+  conflict: boolean;
+  /** True when the change affects what the CLI runs, reads or connects to (see TRUSTED_IMPORT_KEYS). */
+  trusted: boolean;
+}
+
+export interface ProfileImportPlan {
+  profile: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: ImportChange[];
+}
+
+export interface ConfigImportPlan {
+  mode: ImportMode;
+  profiles: ProfileImportPlan[];
+  conflicts: number;
+  /** Added or changed helper commands and connection settings; these always need confirmation. */
+  trustedChanges: number;
+  /** Stored form of every imported profile, ready for applyConfigImport. */
+  pending: Record<string, ProfileConfig>;
+}
+
 interface RawCliConfig {
   defaultProfile?: string;
   profiles?: Record<string, ProfileConfig>;
@@ -33,11 +127,25 @@ const CONFIG_PATH = path.join(CONFIG_DIR, 'config.json');
 
 const DEFAULT_PROFILE: Required<ProfileConfig> = {
   apiKey: '',
+  apiKeyCommand: '',
+  apiKeyFile: '',
+  apiKeyCommandTimeout: 10_000,
   projectId: '',
   integrationId: '',
   baseUrl: 'https://api.kapa.ai/query/v1',
   stream: true,
   temperature: null,
+  maxAttempts: 3,
+  retryBaseDelay: 500,
+  retryMaxDelay: 8000,
+  proxy: '',
+  caFile: '',
+  insecureSkipVerify: false,
+  timeout: 0,
+  idleTimeout: 60_000,
+  cache: false,
+  cacheTtl: 86_400_000,
+  metadata: {},
 };
 
 const DEFAULT_CONFIG: CliConfig = {
@@ -47,9 +155,45 @@ const DEFAULT_CONFIG: CliConfig = {
   },
 };
 
-const BOOLEAN_KEYS = new Set(['stream']);
-const NUMBER_KEYS = new Set(['temperature']);
+const BOOLEAN_KEYS = new Set(['stream', 'insecureSkipVerify', 'cache']);
+const NUMBER_KEYS = new Set(['temperature', 'maxAttempts']);
+// Stored as milliseconds; the unit applies to bare numbers passed to "config set".
+const DURATION_KEYS: Record<string, 'ms' | 's'> = {
+  retryBaseDelay: 'ms',
+  retryMaxDelay: 'ms',
+  apiKeyCommandTimeout: 's',
+  timeout: 's',
+  idleTimeout: 's',
+  cacheTtl: 's',
+};
+const PROJECT_CONFIG_FILES = ['.kaparc', '.kaparc.json'];
+const PROJECT_CONFIG_KEYS = new Set<string>(['projectId', 'integrationId', 'metadata', 'temperature']);
+// Env vars KapaClient.fromProfile consults; they sit between flags and `.kaparc`.
+const ENV_OVERRIDES: Partial<Record<keyof ProfileConfig, string>> = {
+  apiKey: 'KAPA_API_KEY',
+  projectId: 'KAPA_PROJECT_ID',
+  integrationId: 'KAPA_INTEGRATION_ID',
+  baseUrl: 'KAPA_BASE_URL',
+  proxy: 'KAPA_PROXY',
+  caFile: 'KAPA_CA_FILE',
+};
 const SENSITIVE_KEY: keyof ProfileConfig = 'apiKey';
+// Not secrets themselves, but helper commands often embed tokens or vault paths.
+const MASKED_KEYS = new Set<keyof ProfileConfig>(['apiKeyCommand', 'apiKeyFile']);
+// Left out of exports unless --include-secrets is given, and sealed when they are included.
+const EXPORT_SECRET_KEYS = new Set<keyof ProfileConfig>([SENSITIVE_KEY, ...MASKED_KEYS]);
+// Exports may also carry a sealed `proxy`: its user:password is a secret, the host is not.
+const SEALED_EXPORT_KEYS = new Set<keyof ProfileConfig>([...EXPORT_SECRET_KEYS, 'proxy']);
+// An imported file setting these can run commands, read files or redirect the API key, so the
+// import preview shows them in full and they are never applied without confirmation.
+const TRUSTED_IMPORT_KEYS = new Set<keyof ProfileConfig>([
+  'apiKeyCommand',
+  'apiKeyFile',
+  'baseUrl',
+  'proxy',
+  'caFile',
+  'insecureSkipVerify',
+]);
 
 function mergeProfile(profile: ProfileConfig = {}): Required<ProfileConfig> {
   return { ...DEFAULT_PROFILE, ...profile };
@@ -58,6 +202,11 @@ function mergeProfile(profile: ProfileConfig = {}): Required<ProfileConfig> {
 function normalizeKey(key: string): keyof ProfileConfig | 'defaultProfile' {
   const clean = key.toLowerCase();
   if (['api-key', 'apikey', 'key'].includes(clean)) return 'apiKey';
+  if (['apikeycommand', 'api-key-command', 'key-command'].includes(clean)) return 'apiKeyCommand';
+  if (['apikeyfile', 'api-key-file', 'key-file'].includes(clean)) return 'apiKeyFile';
+  if (['apikeycommandtimeout', 'api-key-command-timeout', 'key-command-timeout'].includes(clean)) {
+    return 'apiKeyCommandTimeout';
+  }
   if (['project', 'project-id', 'projectid'].includes(clean)) return 'projectId';
   if (['integration', 'integration-id', 'integrationid'].includes(clean)) {
     return 'integrationId';
@@ -65,6 +214,21 @@ function normalizeKey(key: string): keyof ProfileConfig | 'defaultProfile' {
   if (['baseurl', 'base-url', 'url'].includes(clean)) return 'baseUrl';
   if (['stream', 'no-stream'].includes(clean)) return 'stream';
   if (['temperature', 'temp'].includes(clean)) return 'temperature';
+  if (['maxattempts', 'max-attempts', 'retries', 'attempts'].includes(clean)) return 'maxAttempts';
+  if (['retrybasedelay', 'retry-base-delay', 'retry-delay'].includes(clean)) {
+    return 'retryBaseDelay';
+  }
+  if (['retrymaxdelay', 'retry-max-delay'].includes(clean)) return 'retryMaxDelay';
+  if (['timeout', 'request-timeout'].includes(clean)) return 'timeout';
+  if (['idletimeout', 'idle-timeout'].includes(clean)) return 'idleTimeout';
+  if (['proxy', 'https-proxy', 'proxy-url'].includes(clean)) return 'proxy';
+  if (['cafile', 'ca-file', 'ca', 'ca-cert'].includes(clean)) return 'caFile';
+  if (['insecureskipverify', 'insecure-skip-verify', 'insecure'].includes(clean)) {
+    return 'insecureSkipVerify';
+  }
+  if (['cache', 'no-cache', 'cache-answers'].includes(clean)) return 'cache';
+  if (['cachettl', 'cache-ttl'].includes(clean)) return 'cacheTtl';
+  if (['metadata', 'meta'].includes(clean)) return 'metadata';
   if (['default', 'default-profile'].includes(clean)) return 'defaultProfile';
   return key as keyof ProfileConfig;
 }
@@ -79,6 +243,22 @@ function parseValue(key: keyof ProfileConfig, value: unknown): unknown {
     return ['1', 'true', 'yes', 'on'].includes(String(value).toLowerCase());
   }
 
+  if (key in DURATION_KEYS) {
+    const parsed = parseDuration(value as string | number, DURATION_KEYS[key]);
+    if (parsed === null) {
+      throw new Error(`Invalid duration for ${key}: "${value}". Use values like 30s, 2m or 500ms.`);
+    }
+    return parsed;
+  }
+
+  if (key === 'metadata') {
+    const parsed = typeof value === 'string' ? safeJsonParse(value) : value;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('metadata must be a JSON object, e.g. \'{"team":"docs"}\'.');
+    }
+    return parsed;
+  }
+
   if (NUMBER_KEYS.has(key)) {
     const parsed = Number(value);
     return Number.isFinite(parsed) ? parsed : null;
@@ -87,12 +267,9 @@ function parseValue(key: keyof ProfileConfig, value: unknown): unknown {
   return value;
 }
 
-async function ensureConfigDir() {
-  await fs.mkdir(CONFIG_DIR, { recursive: true });
-}
-
 export async function loadConfig(): Promise<CliConfig> {
   const raw = await readRawConfig();
+  const project = await findProjectConfig();
   const mergedProfiles: Record<string, Required<ProfileConfig>> = {};
   const combinedProfiles = { ...DEFAULT_CONFIG.profiles, ...(raw.profiles ?? {}) };
   for (const [name, profile] of Object.entries(combinedProfiles)) {
@@ -101,6 +278,7 @@ export async function loadConfig(): Promise<CliConfig> {
   return {
     defaultProfile: raw.defaultProfile ?? DEFAULT_CONFIG.defaultProfile,
     profiles: mergedProfiles,
+    project,
   };
 }
 
@@ -112,7 +290,7 @@ export async function saveConfig(config: CliConfig): Promise<void> {
   for (const [name, profile] of Object.entries(config.profiles)) {
     serialised.profiles![name] = encodeProfile(profile);
   }
-  await writeRawConfig(serialised);
+  await withFileLock(CONFIG_PATH, () => writeRawConfig(serialised));
 }
 
 export function getConfigPath() {
@@ -123,78 +301,375 @@ export function getConfigDirectory() {
   return CONFIG_DIR;
 }
 
+/**
+ * Picks the profile (`profileName`, then the `.kaparc` profile, then the default profile)
+ * and applies the `.kaparc` overrides to it. Env vars and flags are layered on top by
+ * KapaClient.fromProfile.
+ */
 export function resolveProfile(config: CliConfig, profileName?: string): ResolvedProfile {
-  const name = profileName ?? config.defaultProfile ?? 'default';
+  const project = config.project ?? null;
+  const name = selectProfileName(config.defaultProfile, project, profileName);
   const profile = config.profiles[name];
   if (!profile) {
-    throw new Error(`Profile "${name}" not found. Use "kapa config profile create ${name}" first.`);
+    const selectedBy = !profileName && project?.profile ? ` (selected by ${project.path})` : '';
+    throw new Error(
+      `Profile "${name}"${selectedBy} not found. Use "kapa config profile create ${name}" first.`,
+    );
   }
   return {
     name,
-    values: mergeProfile(profile),
+    values: applyProjectConfig(mergeProfile(profile), project),
+  };
+}
+
+/**
+ * Looks for `.kaparc` or `.kaparc.json` in `cwd` and each parent directory; the nearest
+ * file wins. Both are JSON. Throws when the file is invalid or sets a key it may not.
+ */
+export async function findProjectConfig(cwd = process.cwd()): Promise<ProjectConfig | null> {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      let text: string;
+      try {
+        text = await fs.readFile(candidate, 'utf8');
+      } catch (error: any) {
+        if (['ENOENT', 'EISDIR', 'ENOTDIR'].includes(error?.code)) continue;
+        throw error;
+      }
+      return parseProjectConfig(candidate, text);
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Explains where each effective value comes from, in precedence order: flags (only
+ * `--profile` applies here), env vars, `.kaparc`, the user config, built-in defaults.
+ */
+export async function describeConfigResolution(
+  options: { profile?: string; env?: Record<string, string | undefined> } = {},
+): Promise<ConfigResolution> {
+  const env = options.env ?? process.env;
+  const config = await loadConfig();
+  const project = config.project ?? null;
+  const resolved = resolveProfile(config, options.profile);
+  const raw = await readRawConfig();
+  const stored = raw.profiles?.[resolved.name] ?? {};
+
+  const effective: ProfileConfig = { ...resolved.values };
+  const origins: Array<Omit<ResolvedValue, 'value'>> = [];
+  for (const key of Object.keys(DEFAULT_PROFILE) as Array<keyof ProfileConfig>) {
+    const envName = ENV_OVERRIDES[key];
+    if (envName && env[envName]) {
+      (effective as Record<string, unknown>)[key] = env[envName];
+      origins.push({ key, source: 'env', origin: envName });
+    } else if (project?.values[key as ProjectConfigKey] !== undefined) {
+      origins.push({ key, source: 'kaparc', origin: project.path });
+    } else if (stored[key] !== undefined) {
+      origins.push({ key, source: 'config', origin: resolved.name });
+    } else {
+      origins.push({ key, source: 'default' });
+    }
+  }
+  const display = summarizeProfile(effective) as Record<string, unknown>;
+
+  let profileSource: ValueSource = 'default';
+  if (options.profile) profileSource = 'flag';
+  else if (project?.profile) profileSource = 'kaparc';
+  else if (raw.defaultProfile) profileSource = 'config';
+  return {
+    profile: resolved.name,
+    profileSource,
+    profileOrigin: profileSource === 'kaparc' ? project!.path : undefined,
+    project,
+    values: origins.map((entry) => ({ ...entry, value: display[entry.key] })),
   };
 }
 
+/**
+ * Stores `key` in `options.profile`, or else in the profile reads would use: the `.kaparc`
+ * profile, then the default profile.
+ */
 export async function setConfigValue(
   key: string,
   value: string,
   options: { profile?: string } = {},
 ) {
   const normalized = normalizeKey(key);
-  const config = await readRawConfig();
-  if (normalized === 'defaultProfile') {
-    config.defaultProfile = value;
+  const project = options.profile || normalized === 'defaultProfile' ? null : await findProjectConfig();
+  return updateRawConfig((config) => {
+    if (normalized === 'defaultProfile') {
+      config.defaultProfile = value;
+      config.profiles = config.profiles ?? {};
+      if (!config.profiles[value]) {
+        config.profiles[value] = {};
+      }
+      return { key: normalized, value };
+    }
+
+    const profileName = selectProfileName(config.defaultProfile, project, options.profile);
     config.profiles = config.profiles ?? {};
-    if (!config.profiles[value]) {
-      config.profiles[value] = {};
+    if (!config.profiles[profileName]) {
+      config.profiles[profileName] = {};
     }
-    await writeRawConfig(config);
-    return { key: normalized, value };
-  }
 
-  const profileName = options.profile ?? config.defaultProfile ?? 'default';
-  config.profiles = config.profiles ?? {};
-  if (!config.profiles[profileName]) {
-    config.profiles[profileName] = {};
-  }
+    const profileKey = normalized as keyof ProfileConfig;
+    const parsed = parseValue(profileKey, value);
+    const targetProfile = config.profiles[profileName] as Record<string, unknown>;
+    if (isSensitiveKey(profileKey)) {
+      const stored = typeof parsed === 'string' ? parsed : String(parsed ?? '');
+      targetProfile[profileKey] = stored ? encodeSecret(stored, 'config') : '';
+      return { key: normalized, value: maskSecret(stored), profile: profileName };
+    }
+    targetProfile[profileKey] = parsed as unknown;
 
-  const profileKey = normalized as keyof ProfileConfig;
-  const parsed = parseValue(profileKey, value);
-  const targetProfile = config.profiles[profileName] as Record<string, unknown>;
-  if (isSensitiveKey(profileKey)) {
-    const stored = typeof parsed === 'string' ? parsed : String(parsed ?? '');
-    targetProfile[profileKey] = stored ? encodeSecret(stored, 'config') : '';
-    await writeRawConfig(config);
-    return { key: normalized, value: maskSecret(stored), profile: profileName };
+    if (MASKED_KEYS.has(profileKey) && typeof parsed === 'string') {
+      return { key: normalized, value: maskSecret(parsed), profile: profileName };
+    }
+    return { key: normalized, value: parsed, profile: profileName };
+  });
+}
+
+export async function createProfile(name: string) {
+  return updateRawConfig((config) => {
+    config.profiles = config.profiles ?? {};
+    if (config.profiles[name]) {
+      throw new Error(`Profile "${name}" already exists.`);
+    }
+    config.profiles[name] = {};
+    return name;
+  });
+}
+
+export async function deleteProfile(name: string) {
+  await updateRawConfig((config) => {
+    config.profiles = config.profiles ?? {};
+    if (!config.profiles[name]) {
+      throw new Error(`Profile "${name}" does not exist.`);
+    }
+    if (!name || name === (config.defaultProfile ?? DEFAULT_CONFIG.defaultProfile)) {
+      throw new Error('Cannot delete the default profile. Switch profiles first.');
+    }
+    delete config.profiles[name];
+  });
+}
+
+/**
+ * Removes a stored key from a profile (chosen like setConfigValue's) so its default (or an
+ * env/.kaparc override) applies again. `removed` is false when the key was not set.
+ */
+export async function unsetConfigValue(key: string, options: { profile?: string } = {}) {
+  const normalized = normalizeKey(key);
+  if (normalized === 'defaultProfile') {
+    throw new Error('defaultProfile cannot be unset. Use "kapa config profile use <name>" instead.');
   }
-  targetProfile[profileKey] = parsed as unknown;
-  await writeRawConfig(config);
+  const project = options.profile ? null : await findProjectConfig();
+  return updateRawConfig((config) => {
+    const profileName = selectProfileName(config.defaultProfile, project, options.profile);
+    const target = config.profiles?.[profileName] as Record<string, unknown> | undefined;
+    if (!target) {
+      throw new Error(`Profile "${profileName}" does not exist.`);
+    }
+    const removed = normalized in target;
+    delete target[normalized];
+    return { key: normalized, profile: profileName, removed };
+  });
+}
 
-  return { key: normalized, value: parsed, profile: profileName };
+/** Renames a profile in place; `defaultProfile` follows it when it was the default. */
+export async function renameProfile(from: string, to: string) {
+  return updateRawConfig((config) => {
+    const profiles = checkProfileTarget(config, from, to);
+    const wasDefault = (config.defaultProfile ?? DEFAULT_CONFIG.defaultProfile) === from;
+    config.profiles = Object.fromEntries(
+      Object.entries(profiles).map(([name, profile]) => [name === from ? to : name, profile]),
+    );
+    if (wasDefault) {
+      config.defaultProfile = to;
+    }
+    return { from, to, wasDefault };
+  });
 }
 
-export async function createProfile(name: string) {
-  const config = await readRawConfig();
-  config.profiles = config.profiles ?? {};
-  if (config.profiles[name]) {
-    throw new Error(`Profile "${name}" already exists.`);
+/** Copies every stored value of a profile, including its encrypted API key, to a new one. */
+export async function copyProfile(from: string, to: string) {
+  return updateRawConfig((config) => {
+    const profiles = checkProfileTarget(config, from, to);
+    profiles[to] = structuredClone(profiles[from]);
+    return { from, to };
+  });
+}
+
+/**
+ * Serialises stored profiles (defaults are not included). Secrets are dropped unless a
+ * passphrase is given, in which case they are decrypted with the local vault key and sealed
+ * with the passphrase, so the bundle never depends on KAPA_VAULT_KEY. A proxy URL with
+ * credentials is exported without them, or sealed whole when there is a passphrase.
+ */
+export async function exportProfiles(
+  options: { profile?: string; passphrase?: string } = {},
+): Promise<ConfigBundle> {
+  const raw = await readRawConfig();
+  const stored = raw.profiles ?? {};
+  const names = options.profile ? [options.profile] : Object.keys(stored);
+  if (options.profile && !stored[options.profile]) {
+    throw new Error(`Profile "${options.profile}" does not exist.`);
+  }
+
+  const profiles: Record<string, ProfileConfig> = {};
+  for (const name of names) {
+    const exported: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(stored[name] ?? {})) {
+      if (value === undefined) continue;
+      if (key === 'proxy' && typeof value === 'string' && hasProxyCredentials(value)) {
+        exported[key] = options.passphrase
+          ? sealWithPassphrase(value, options.passphrase)
+          : stripProxyCredentials(value);
+        continue;
+      }
+      if (!EXPORT_SECRET_KEYS.has(key as keyof ProfileConfig)) {
+        exported[key] = value;
+        continue;
+      }
+      if (!options.passphrase || !value) continue;
+      const plain = isSensitiveKey(key as keyof ProfileConfig)
+        ? tryDecodeSecret(String(value), 'config')
+        : String(value);
+      if (plain === null) {
+        throw new Error(
+          `Cannot export the API key of profile "${name}": it does not decrypt with the current KAPA_VAULT_KEY.`,
+        );
+      }
+      exported[key] = sealWithPassphrase(plain, options.passphrase);
+    }
+    profiles[name] = exported as ProfileConfig;
   }
-  config.profiles[name] = {};
-  await writeRawConfig(config);
-  return name;
+  return {
+    kapaConfigExport: 1,
+    exportedAt: new Date().toISOString(),
+    sealed: Boolean(options.passphrase),
+    profiles,
+  };
 }
 
-export async function deleteProfile(name: string) {
-  const config = await readRawConfig();
-  config.profiles = config.profiles ?? {};
-  if (!config.profiles[name]) {
-    throw new Error(`Profile "${name}" does not exist.`);
+/** Parses and validates an export file. Keys go through the same aliases as `config set`. */
+export function parseConfigBundle(text: string, source = 'import file'): ConfigBundle {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${source} is not valid JSON: ${error?.message ?? error}`);
+  }
+  if (parsed?.kapaConfigExport !== 1 || !parsed.profiles || typeof parsed.profiles !== 'object') {
+    throw new Error(`${source} is not a kapa config export.`);
+  }
+
+  const problems: string[] = [];
+  const profiles: Record<string, ProfileConfig> = {};
+  for (const [name, values] of Object.entries(parsed.profiles as Record<string, unknown>)) {
+    if (!name.trim() || !values || typeof values !== 'object' || Array.isArray(values)) {
+      problems.push(`profile "${name}" is not an object`);
+      continue;
+    }
+    const profile: Record<string, unknown> = {};
+    for (const [rawKey, value] of Object.entries(values as Record<string, unknown>)) {
+      const key = normalizeKey(rawKey);
+      if (key === 'defaultProfile' || !(key in DEFAULT_PROFILE)) {
+        problems.push(`${name}.${rawKey} is not a known setting`);
+        continue;
+      }
+      try {
+        profile[key] = coerceImportedValue(key, value);
+      } catch (error: any) {
+        problems.push(`${name}.${rawKey}: ${error?.message ?? error}`);
+      }
+    }
+    profiles[name] = profile as ProfileConfig;
   }
-  if (!name || name === (config.defaultProfile ?? DEFAULT_CONFIG.defaultProfile)) {
-    throw new Error('Cannot delete the default profile. Switch profiles first.');
+  if (problems.length) {
+    throw new Error(`${source} has invalid settings:\n  ${problems.join('\n  ')}`);
   }
-  delete config.profiles[name];
-  await writeRawConfig(config);
+  return { ...parsed, profiles } as ConfigBundle;
+}
+
+/**
+ * Works out what importing `bundle` would change without writing anything. `merge` only
+ * touches keys present in the bundle; `replace` swaps each imported profile wholesale.
+ * Profiles that are not in the bundle are never modified.
+ */
+export async function planConfigImport(
+  bundle: ConfigBundle,
+  options: { mode?: ImportMode; passphrase?: string } = {},
+): Promise<ConfigImportPlan> {
+  const mode = options.mode ?? 'merge';
+  const stored = (await readRawConfig()).profiles ?? {};
+  const plans: ProfileImportPlan[] = [];
+  const pending: Record<string, ProfileConfig> = {};
+
+  for (const [name, incoming] of Object.entries(bundle.profiles)) {
+    const opened: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(incoming)) {
+      if (SEALED_EXPORT_KEYS.has(key as keyof ProfileConfig) && isEncryptedValue(value)) {
+        if (!options.passphrase) {
+          throw new Error('This export contains sealed secrets; a passphrase is required to import it.');
+        }
+        opened[key] = openWithPassphrase(value, options.passphrase);
+      } else {
+        opened[key] = value;
+      }
+    }
+
+    const existing = (stored[name] ?? {}) as Record<string, unknown>;
+    const next: Record<string, unknown> = mode === 'replace' ? {} : { ...existing };
+    for (const [key, value] of Object.entries(opened)) {
+      next[key] = key === SENSITIVE_KEY && value ? encodeSecret(String(value), 'config') : value;
+    }
+
+    const changes: ImportChange[] = [];
+    const keys = new Set([...Object.keys(existing), ...Object.keys(next)]);
+    for (const key of keys as Set<keyof ProfileConfig>) {
+      const imported = key in opened;
+      if (mode === 'merge' && !imported) continue;
+      const before = existing[key] === undefined ? undefined : comparableValue(key, existing[key]);
+      const after = imported ? opened[key] : undefined;
+      if (JSON.stringify(before) === JSON.stringify(after)) continue;
+      changes.push({
+        key,
+        from: before === undefined ? undefined : displayValue(key, before),
+        to: after === undefined ? undefined : displayValue(key, after),
+        conflict: before !== undefined,
+        trusted: TRUSTED_IMPORT_KEYS.has(key) && after !== undefined,
+      });
+    }
+    pending[name] = next as ProfileConfig;
+    plans.push({
+      profile: name,
+      action: !stored[name] ? 'create' : changes.length ? 'update' : 'unchanged',
+      changes,
+    });
+  }
+
+  return {
+    mode,
+    profiles: plans,
+    conflicts: countChanges(plans, (change) => change.conflict),
+    trustedChanges: countChanges(plans, (change) => change.trusted),
+    pending,
+  };
+}
+
+export async function applyConfigImport(plan: ConfigImportPlan) {
+  await updateRawConfig((config) => {
+    config.profiles = config.profiles ?? {};
+    for (const profile of plan.profiles) {
+      if (profile.action === 'unchanged') continue;
+      config.profiles[profile.profile] = plan.pending[profile.profile];
+    }
+  });
 }
 
 export async function listProfiles() {
@@ -209,11 +684,25 @@ export function summarizeProfile(profile: ProfileConfig) {
   const merged = mergeProfile(profile);
   return {
     apiKey: merged.apiKey ? maskSecret(merged.apiKey) : '(unset)',
+    apiKeyCommand: merged.apiKeyCommand ? maskSecret(merged.apiKeyCommand) : '(unset)',
+    apiKeyFile: merged.apiKeyFile ? maskSecret(merged.apiKeyFile) : '(unset)',
+    apiKeyCommandTimeout: formatDuration(merged.apiKeyCommandTimeout),
     projectId: merged.projectId || '(unset)',
     integrationId: merged.integrationId || '(unset)',
     baseUrl: merged.baseUrl,
     stream: merged.stream,
     temperature: merged.temperature,
+    maxAttempts: merged.maxAttempts,
+    retryBaseDelay: formatDuration(merged.retryBaseDelay),
+    retryMaxDelay: formatDuration(merged.retryMaxDelay),
+    proxy: merged.proxy ? redactProxyCredentials(merged.proxy) : '(env)',
+    caFile: merged.caFile || '(system)',
+    insecureSkipVerify: merged.insecureSkipVerify,
+    timeout: merged.timeout ? formatDuration(merged.timeout) : '(none)',
+    idleTimeout: merged.idleTimeout ? formatDuration(merged.idleTimeout) : '(none)',
+    cache: merged.cache,
+    cacheTtl: formatDuration(merged.cacheTtl),
+    metadata: Object.keys(merged.metadata ?? {}).length ? JSON.stringify(merged.metadata) : '(none)',
   };
 }
 
@@ -229,16 +718,142 @@ async function readRawConfig(): Promise<RawCliConfig> {
     if (error?.code === 'ENOENT') {
       return {
         defaultProfile: DEFAULT_CONFIG.defaultProfile,
-        profiles: { ...DEFAULT_CONFIG.profiles },
+        profiles: structuredClone(DEFAULT_CONFIG.profiles),
       };
     }
     throw error;
   }
 }
 
+function checkProfileTarget(config: RawCliConfig, from: string, to: string) {
+  config.profiles = config.profiles ?? {};
+  if (!config.profiles[from]) {
+    throw new Error(`Profile "${from}" does not exist.`);
+  }
+  if (!to.trim()) {
+    throw new Error('Profile names must not be empty.');
+  }
+  if (config.profiles[to]) {
+    throw new Error(`Profile "${to}" already exists.`);
+  }
+  return config.profiles;
+}
+
 async function writeRawConfig(config: RawCliConfig) {
-  await ensureConfigDir();
-  await fs.writeFile(CONFIG_PATH, `${JSON.stringify(config, null, 2)}\n`, 'utf8');
+  await writeFileAtomic(CONFIG_PATH, `${JSON.stringify(config, null, 2)}\n`);
+}
+
+/**
+ * Read-modify-write of config.json under its lock, so concurrent `kapa config` calls do not
+ * lose each other's changes. Nothing is written when `mutate` throws.
+ */
+async function updateRawConfig<T>(mutate: (config: RawCliConfig) => T): Promise<T> {
+  return withFileLock(CONFIG_PATH, async () => {
+    const config = await readRawConfig();
+    const result = mutate(config);
+    await writeRawConfig(config);
+    return result;
+  });
+}
+
+function parseProjectConfig(filePath: string, text: string): ProjectConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${filePath} is not valid JSON: ${error?.message ?? error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${filePath} must contain a JSON object.`);
+  }
+
+  const project: ProjectConfig = { path: filePath, values: {} };
+  for (const [rawKey, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (rawKey === 'profile') {
+      if (typeof value !== 'string' || !value) {
+        throw new Error(`${filePath}: "profile" must be a profile name.`);
+      }
+      project.profile = value;
+      continue;
+    }
+    const key = normalizeKey(rawKey);
+    if (!PROJECT_CONFIG_KEYS.has(key)) {
+      // These files get committed, so keys, helper commands and endpoints stay per-user.
+      throw new Error(
+        `${filePath}: "${rawKey}" cannot be set in .kaparc. ` +
+          'Allowed keys: profile, projectId, integrationId, metadata, temperature.',
+      );
+    }
+    const valid =
+      key === 'metadata'
+        ? Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+        : key === 'temperature'
+          ? typeof value === 'number' && Number.isFinite(value)
+          : typeof value === 'string';
+    if (!valid) {
+      throw new Error(`${filePath}: invalid value for "${rawKey}".`);
+    }
+    (project.values as Record<string, unknown>)[key] = value;
+  }
+  return project;
+}
+
+/** `--profile`, then the `.kaparc` profile, then the default profile; shared by reads and writes. */
+function selectProfileName(defaultProfile: string | undefined, project: ProjectConfig | null, explicit?: string) {
+  return explicit ?? project?.profile ?? defaultProfile ?? DEFAULT_CONFIG.defaultProfile;
+}
+
+function applyProjectConfig(values: Required<ProfileConfig>, project: ProjectConfig | null) {
+  if (!project) return values;
+  const overrides = project.values;
+  return {
+    ...values,
+    ...(overrides.projectId !== undefined ? { projectId: overrides.projectId } : {}),
+    ...(overrides.integrationId !== undefined ? { integrationId: overrides.integrationId } : {}),
+    ...(overrides.temperature !== undefined ? { temperature: overrides.temperature } : {}),
+    metadata: { ...values.metadata, ...overrides.metadata },
+  };
+}
+
+function coerceImportedValue(key: keyof ProfileConfig, value: unknown) {
+  if (value === null && key === 'temperature') return null;
+  // Exported durations are already milliseconds; only strings such as "30s" need parsing.
+  if (key in DURATION_KEYS && typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) throw new Error('expected a duration');
+    return value;
+  }
+  if (BOOLEAN_KEYS.has(key) && typeof value !== 'boolean') throw new Error('expected true or false');
+  if (NUMBER_KEYS.has(key) && typeof value !== 'number') throw new Error('expected a number');
+  const expectsString =
+    !BOOLEAN_KEYS.has(key) && !NUMBER_KEYS.has(key) && !(key in DURATION_KEYS) && key !== 'metadata';
+  if (expectsString && typeof value !== 'string') throw new Error('expected a string');
+  return parseValue(key, value);
+}
+
+function comparableValue(key: keyof ProfileConfig, value: unknown) {
+  if (!isSensitiveKey(key) || typeof value !== 'string') return value;
+  // An unreadable stored key never equals an incoming one.
+  return tryDecodeSecret(value, 'config') ?? value;
+}
+
+function countChanges(plans: ProfileImportPlan[], predicate: (change: ImportChange) => boolean) {
+  return plans.reduce((total, plan) => total + plan.changes.filter(predicate).length, 0);
+}
+
+function displayValue(key: keyof ProfileConfig, value: unknown) {
+  if (isEncryptedValue(value)) return '(encrypted)';
+  if (key === SENSITIVE_KEY && typeof value === 'string') return maskSecret(value);
+  if (key === 'proxy' && typeof value === 'string') return redactProxyCredentials(value);
+  if (key in DURATION_KEYS && typeof value === 'number') return formatDuration(value);
+  return value;
+}
+
+function safeJsonParse(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
 }
 
 function decodeProfile(profile: ProfileConfig = {}) {
@@ -257,6 +872,35 @@ function encodeProfile(profile: ProfileConfig = {}) {
   return copy;
 }
 
+function hasProxyCredentials(proxy: string) {
+  try {
+    const url = new URL(proxy);
+    return Boolean(url.username || url.password);
+  } catch {
+    return false;
+  }
+}
+
+function stripProxyCredentials(proxy: string) {
+  const url = new URL(proxy);
+  url.username = '';
+  url.password = '';
+  return url.toString();
+}
+
+function redactProxyCredentials(proxy: string) {
+  try {
+    const url = new URL(proxy);
+    if (!url.password) return url.toString();
+    const masked = maskSecret(decodeURIComponent(url.password));
+    // Substituted after serialising so the mask is not percent-encoded.
+    url.password = 'x';
+    return url.toString().replace(':x@', `:${masked}@`);
+  } catch {
+    return proxy;
+  }
+}
+
 function isSensitiveKey(key: keyof ProfileConfig) {
   return key === SENSITIVE_KEY;
 }
@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+
+const { clearApiKeyCache, readApiKeyCommand, resolveProfileApiKey } = await import('./credentials.js');
+
+const dir = await mkdtemp(path.join(os.tmpdir(), 'kapa-credentials-test-'));
+const node = JSON.stringify(process.execPath);
+const script = (source: string) => `${node} -e ${JSON.stringify(source)}`;
+
+test('uses the first line printed by apiKeyCommand and runs it once per process', async () => {
+  clearApiKeyCache();
+  const counter = path.join(dir, 'runs.txt');
+  const command = script(
+    `require('fs').appendFileSync(${JSON.stringify(counter)}, 'x'); console.log('\\n  sk-from-helper  \\nsecond line')`,
+  );
+
+  const first = await resolveProfileApiKey({ apiKeyCommand: command, apiKey: 'sk-stored' });
+  const second = await resolveProfileApiKey({ apiKeyCommand: command });
+  assert.deepEqual(first, { apiKey: 'sk-from-helper', source: 'command' });
+  assert.equal(second.apiKey, 'sk-from-helper');
+  assert.equal(await readFile(counter, 'utf8'), 'x');
+});
+
+test('apiKeyCommand failures and timeouts are reported and not cached', async () => {
+  clearApiKeyCache();
+  await assert.rejects(
+    readApiKeyCommand(script(`console.error('vault is locked'); process.exit(3)`)),
+    /apiKeyCommand failed \(exit 3\): vault is locked/,
+  );
+  await assert.rejects(
+    readApiKeyCommand(script('setTimeout(() => {}, 5000)'), 200),
+    /apiKeyCommand timed out after 200ms/,
+  );
+  await assert.rejects(readApiKeyCommand(script('')), /printed no API key/);
+});
+
+test('apiKeyFile is read when no command is configured', async () => {
+  clearApiKeyCache();
+  const keyFile = path.join(dir, 'api-key');
+  await writeFile(keyFile, 'sk-from-file\n');
+  assert.deepEqual(await resolveProfileApiKey({ apiKeyFile: keyFile, apiKey: 'sk-stored' }), {
+    apiKey: 'sk-from-file',
+    source: 'file',
+  });
+  await assert.rejects(
+    resolveProfileApiKey({ apiKeyFile: path.join(dir, 'missing') }),
+    /Unable to read apiKeyFile .*ENOENT/,
+  );
+  assert.deepEqual(await resolveProfileApiKey({ apiKey: 'sk-stored' }), {
+    apiKey: 'sk-stored',
+    source: 'config',
+  });
+});
@@ -0,0 +1,94 @@
+import { exec } from 'child_process';
+import { promises as fs } from 'fs';
+import type { ProfileConfig } from './config.js';
+import { createLogger } from './trace.js';
+import { expandHome, formatDuration } from './utils.js';
+
+export type ApiKeySource = 'command' | 'file' | 'config';
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 10_000;
+// Helpers such as `pass` or `op read` are run once per process, not once per request.
+const CACHE = new Map<string, Promise<string>>();
+const log = createLogger('credentials');
+
+/**
+ * Resolves the profile's API key: `apiKeyCommand`, then `apiKeyFile`, then the stored
+ * `apiKey`. Flags and KAPA_API_KEY are checked by the caller before this runs.
+ */
+export async function resolveProfileApiKey(
+  values: Pick<ProfileConfig, 'apiKey' | 'apiKeyCommand' | 'apiKeyFile' | 'apiKeyCommandTimeout'>,
+): Promise<{ apiKey: string; source?: ApiKeySource }> {
+  if (values.apiKeyCommand) {
+    const timeoutMs = values.apiKeyCommandTimeout || DEFAULT_COMMAND_TIMEOUT_MS;
+    return { apiKey: await readApiKeyCommand(values.apiKeyCommand, timeoutMs), source: 'command' };
+  }
+  if (values.apiKeyFile) {
+    return { apiKey: await readApiKeyFile(values.apiKeyFile), source: 'file' };
+  }
+  return values.apiKey ? { apiKey: values.apiKey, source: 'config' } : { apiKey: '' };
+}
+
+/**
+ * Runs a credential helper through the shell and uses the first non-empty line of its
+ * output. Failures are not cached so a retried command (e.g. after unlocking) can succeed.
+ */
+export function readApiKeyCommand(command: string, timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS) {
+  return cached(`command:${command}`, () =>
+    new Promise<string>((resolve, reject) => {
+      log.debug('running apiKeyCommand', { timeoutMs });
+      exec(
+        command,
+        { timeout: timeoutMs, killSignal: 'SIGKILL', windowsHide: true, maxBuffer: 64 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            if (error.killed) {
+              reject(new Error(`apiKeyCommand timed out after ${formatDuration(timeoutMs)}.`));
+              return;
+            }
+            const detail = String(stderr).trim().split('\n')[0] || error.message;
+            reject(new Error(`apiKeyCommand failed (exit ${error.code ?? 'unknown'}): ${detail}`));
+            return;
+          }
+          const key = firstLine(String(stdout));
+          if (!key) {
+            reject(new Error('apiKeyCommand printed no API key.'));
+            return;
+          }
+          resolve(key);
+        },
+      );
+    }),
+  );
+}
+
+export function readApiKeyFile(filePath: string) {
+  const target = expandHome(filePath);
+  return cached(`file:${target}`, async () => {
+    log.debug('reading apiKeyFile', { path: target });
+    const content = await fs.readFile(target, 'utf8').catch((error: any) => {
+      throw new Error(`Unable to read apiKeyFile ${target}: ${error?.code ?? error?.message ?? error}`);
+    });
+    const key = firstLine(content);
+    if (!key) {
+      throw new Error(`apiKeyFile ${target} is empty.`);
+    }
+    return key;
+  });
+}
+
+export function clearApiKeyCache() {
+  CACHE.clear();
+}
+
+function cached(key: string, load: () => Promise<string>) {
+  const existing = CACHE.get(key);
+  if (existing) return existing;
+  const pending = load();
+  CACHE.set(key, pending);
+  pending.catch(() => CACHE.delete(key));
+  return pending;
+}
+
+function firstLine(text: string) {
+  return text.split(/\r?\n/).map((line) => line.trim()).find(Boolean) ?? '';
+}
@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { chmod, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import chalk from 'chalk';
+
+const sandbox = await mkdtemp(path.join(os.tmpdir(), 'kapa-doctor-test-'));
+process.env.KAPA_CONFIG_DIR = path.join(sandbox, 'config');
+process.env.KAPA_DATA_DIR = path.join(sandbox, 'data');
+process.env.KAPA_VAULT_KEY = 'doctor-vault';
+process.env.KAPA_HISTORY_KEY = 'doctor-history';
+delete process.env.KAPA_ALLOW_PLAINTEXT_CONFIG;
+delete process.env.KAPA_ALLOW_PLAINTEXT_HISTORY;
+
+chalk.level = 0;
+const { createProfile, getConfigPath, setConfigValue } = await import('./config.js');
+const { appendHistory } = await import('./history.js');
+const { renderDoctorReport, runDoctor } = await import('./doctor.js');
+const { startMockServer } = await import('./mock-server.js');
+
+const server = await startMockServer({ apiKey: 'sk-doctor' });
+test.after(() => server.close());
+
+const statuses = (report: Awaited<ReturnType<typeof runDoctor>>) =>
+  Object.fromEntries(report.checks.map((check) => [check.id, check.status]));
+
+test('reports a working profile end to end', async () => {
+  await setConfigValue('apiKey', 'sk-doctor');
+  await setConfigValue('baseUrl', server.url);
+  await setConfigValue('projectId', 'demo');
+  await setConfigValue('integrationId', 'demo');
+  await createProfile('spare');
+  await chmod(getConfigPath(), 0o600);
+  await appendHistory({ timestamp: new Date().toISOString(), profile: 'default', prompt: 'q', response: 'a' });
+
+  const report = await runDoctor({ env: {}, timeoutMs: 5000 });
+
+  assert.deepEqual(statuses(report), {
+    'config.file': 'pass',
+    'config.permissions': 'pass',
+    'profile.default': 'pass',
+    'profile.spare': 'warn',
+    'secrets.config': 'pass',
+    'secrets.history': 'pass',
+    'history.file': 'pass',
+    'network.proxy': 'pass',
+    'network.ca': 'pass',
+    'network.dns': 'pass',
+    'network.tls': 'warn',
+    'api.auth': 'pass',
+  });
+  assert.equal(report.ok, true);
+  assert.ok(server.requests.some((request) => request.path === '/projects/demo/search/'));
+
+  const text = renderDoctorReport(report);
+  assert.match(text, /✓ Authenticated request\s+search answered in/);
+  assert.match(text, /→ kapa config set apiKey <value> --profile spare/);
+  assert.match(text, /10 passed, 2 warnings, 0 failed/);
+});
+
+test('flags keys that no longer decrypt and unreadable config files', async () => {
+  process.env.KAPA_VAULT_KEY = 'rotated';
+  process.env.KAPA_HISTORY_KEY = 'rotated';
+  try {
+    const report = await runDoctor({ env: {}, timeoutMs: 5000 });
+    const byId = statuses(report);
+    assert.equal(byId['secrets.config'], 'fail');
+    assert.equal(byId['history.file'], 'warn');
+    assert.equal(byId['api.auth'], 'fail');
+    assert.equal(report.ok, false);
+    assert.match(
+      report.checks.find((check) => check.id === 'history.file')!.message,
+      /0 entries readable; 1 cannot be decrypted/,
+    );
+  } finally {
+    process.env.KAPA_VAULT_KEY = 'doctor-vault';
+    process.env.KAPA_HISTORY_KEY = 'doctor-history';
+  }
+
+  await writeFile(getConfigPath(), '{ "profiles": ', 'utf8');
+  const broken = await runDoctor({ env: {} });
+  assert.equal(statuses(broken)['config.file'], 'fail');
+  assert.ok(!broken.checks.some((check) => check.section === 'network' || check.section === 'api'));
+  await rm(sandbox, { recursive: true, force: true });
+});
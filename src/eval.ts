@@ -0,0 +1,376 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { BatchItem, BatchResult } from './batch.js';
+import { runBatch } from './batch.js';
+import type { KapaAnswer } from './client.js';
+import { formatDuration, parseDuration, timestamp } from './utils.js';
+
+export interface EvalAssertions {
+  /** URL pattern at least one citation must match: `*` wildcards, or `/regex/`. */
+  citeUrl?: string | string[];
+  mustContain?: string | string[];
+  mustNotContain?: string | string[];
+  /** Duration such as `20s`; plain numbers are seconds. */
+  maxLatency?: string | number;
+  followUps?: boolean;
+}
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  threadId?: string;
+  metadata?: Record<string, unknown>;
+  assert: EvalAssertions;
+}
+
+export interface EvalSuite {
+  name: string;
+  cases: EvalCase[];
+}
+
+export interface AssertionResult {
+  name: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  passed: boolean;
+  score: number;
+  latencyMs: number;
+  assertions: AssertionResult[];
+  answer?: string;
+  citedUrls: string[];
+  error?: string;
+}
+
+export interface EvalRun {
+  suite: string;
+  timestamp: string;
+  passed: number;
+  failed: number;
+  results: EvalCaseResult[];
+}
+
+export interface EvalRegression {
+  id: string;
+  /**
+   * Assertions that passed in the baseline and fail now (every failing one for a case the
+   * baseline lacks); empty when the request itself failed.
+   */
+  assertions: string[];
+  message: string;
+}
+
+export interface EvalDiff {
+  regressions: EvalRegression[];
+  fixed: string[];
+  added: string[];
+  removed: string[];
+}
+
+const ASSERTION_KEYS = new Set(['citeUrl', 'mustContain', 'mustNotContain', 'maxLatency', 'followUps']);
+
+/**
+ * Parses a suite file. `defaults` assertions are merged into every case; a case's own
+ * lists replace (rather than extend) the defaults.
+ */
+export function parseEvalSuite(content: string, format: 'yaml' | 'json', fallbackName = 'kapa-eval'): EvalSuite {
+  let raw: any;
+  try {
+    raw = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Suite is not valid ${format.toUpperCase()}: ${error?.message ?? error}`);
+  }
+  const rawCases = Array.isArray(raw) ? raw : raw?.cases;
+  if (!Array.isArray(rawCases) || !rawCases.length) {
+    throw new Error('Suite must define a non-empty "cases" list.');
+  }
+  const defaults = validateAssertions(raw?.defaults ?? {}, 'defaults');
+
+  const seen = new Set<string>();
+  const cases = rawCases.map((entry: any, idx: number): EvalCase => {
+    const label = `cases[${idx}]`;
+    const question = typeof entry === 'string' ? entry : entry?.question ?? entry?.prompt;
+    if (typeof question !== 'string' || !question.trim()) {
+      throw new Error(`${label} needs a "question".`);
+    }
+    const id = String(entry?.id ?? `case-${idx + 1}`);
+    if (seen.has(id)) {
+      throw new Error(`${label} repeats id "${id}".`);
+    }
+    seen.add(id);
+    return {
+      id,
+      question: question.trim(),
+      threadId: entry?.thread ?? entry?.threadId ?? undefined,
+      metadata: entry?.metadata ?? undefined,
+      assert: { ...defaults, ...validateAssertions(entry?.assert ?? {}, `${label}.assert`) },
+    };
+  });
+
+  return { name: typeof raw?.name === 'string' ? raw.name : fallbackName, cases };
+}
+
+export function detectSuiteFormat(file: string): 'yaml' | 'json' {
+  return path.extname(file).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+/**
+ * Checks one answer against its case. Assertion names are stable so runs can be diffed.
+ */
+export function scoreEvalCase(testCase: EvalCase, answer: Pick<KapaAnswer, 'answer' | 'citations' | 'followUps'>, latencyMs: number) {
+  const results: AssertionResult[] = [];
+  const text = answer.answer.toLowerCase();
+  const urls = citedUrls(answer.citations);
+
+  results.push({
+    name: 'answered',
+    passed: Boolean(answer.answer.trim()),
+    message: answer.answer.trim() ? 'answer is not empty' : 'answer is empty',
+  });
+  for (const pattern of toList(testCase.assert.citeUrl)) {
+    const matcher = compileUrlPattern(pattern);
+    const passed = urls.some((url) => matcher.test(url));
+    results.push({
+      name: `cites:${pattern}`,
+      passed,
+      message: passed
+        ? `cites ${pattern}`
+        : `no citation matches ${pattern} (cited: ${urls.join(', ') || 'none'})`,
+    });
+  }
+  for (const phrase of toList(testCase.assert.mustContain)) {
+    const passed = text.includes(phrase.toLowerCase());
+    results.push({
+      name: `contains:${phrase}`,
+      passed,
+      message: passed ? `contains "${phrase}"` : `answer does not contain "${phrase}"`,
+    });
+  }
+  for (const phrase of toList(testCase.assert.mustNotContain)) {
+    const passed = !text.includes(phrase.toLowerCase());
+    results.push({
+      name: `excludes:${phrase}`,
+      passed,
+      message: passed ? `does not contain "${phrase}"` : `answer contains "${phrase}"`,
+    });
+  }
+  if (testCase.assert.maxLatency !== undefined) {
+    const limit = parseDuration(testCase.assert.maxLatency, 's') ?? 0;
+    const passed = latencyMs <= limit;
+    results.push({
+      name: `latency<=${formatDuration(limit)}`,
+      passed,
+      message: `answered in ${formatDuration(latencyMs)} (limit ${formatDuration(limit)})`,
+    });
+  }
+  if (testCase.assert.followUps) {
+    const passed = answer.followUps.length > 0;
+    results.push({
+      name: 'followUps',
+      passed,
+      message: passed ? `${answer.followUps.length} follow-up question(s)` : 'no follow-up questions',
+    });
+  }
+  return results;
+}
+
+export async function runEvalSuite(
+  suite: EvalSuite,
+  options: {
+    ask: (item: BatchItem, signal?: AbortSignal) => Promise<KapaAnswer>;
+    concurrency?: number;
+    signal?: AbortSignal;
+    onResult?: (result: EvalCaseResult) => void;
+  },
+): Promise<EvalRun> {
+  const byId = new Map(suite.cases.map((testCase) => [testCase.id, testCase]));
+  const items: BatchItem[] = suite.cases.map((testCase, idx) => ({
+    id: testCase.id,
+    line: idx + 1,
+    prompt: testCase.question,
+    threadId: testCase.threadId,
+    metadata: testCase.metadata,
+  }));
+
+  const results: EvalCaseResult[] = [];
+  await runBatch(items, {
+    ask: options.ask,
+    concurrency: options.concurrency ?? 2,
+    signal: options.signal,
+    onResult: (batchResult) => {
+      const result = toCaseResult(byId.get(batchResult.id)!, batchResult);
+      results.push(result);
+      options.onResult?.(result);
+    },
+  });
+
+  const order = new Map(suite.cases.map((testCase, idx) => [testCase.id, idx]));
+  results.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  const passed = results.filter((result) => result.passed).length;
+  return { suite: suite.name, timestamp: timestamp(), passed, failed: results.length - passed, results };
+}
+
+/**
+ * A regression is a case whose assertions passed in the baseline but fail now, a case
+ * that passed before and now errors, or a case the baseline lacks that fails. Cases that
+ * were already failing are not.
+ */
+export function diffEvalRuns(baseline: EvalRun, current: EvalRun): EvalDiff {
+  const before = new Map(baseline.results.map((result) => [result.id, result]));
+  const now = new Set(current.results.map((result) => result.id));
+  const diff: EvalDiff = { regressions: [], fixed: [], added: [], removed: [] };
+
+  for (const result of current.results) {
+    const previous = before.get(result.id);
+    if (!previous) {
+      diff.added.push(result.id);
+      if (!result.passed) diff.regressions.push(toRegression(result, result.assertions));
+      continue;
+    }
+    if (!previous.passed && result.passed) {
+      diff.fixed.push(result.id);
+      continue;
+    }
+    if (result.error && !previous.error) {
+      diff.regressions.push({ id: result.id, assertions: [], message: result.error });
+      continue;
+    }
+    const passedBefore = new Set(
+      previous.assertions.filter((assertion) => assertion.passed).map((assertion) => assertion.name),
+    );
+    const newlyFailing = result.assertions.filter(
+      (assertion) => !assertion.passed && passedBefore.has(assertion.name),
+    );
+    if (newlyFailing.length) {
+      diff.regressions.push(toRegression(result, newlyFailing));
+    }
+  }
+  diff.removed = baseline.results.map((result) => result.id).filter((id) => !now.has(id));
+  return diff;
+}
+
+export function renderJUnit(run: EvalRun, diff?: EvalDiff) {
+  const regressions = new Map(diff?.regressions.map((regression) => [regression.id, regression]));
+  const totalSeconds = run.results.reduce((sum, result) => sum + result.latencyMs, 0) / 1000;
+  const errors = run.results.filter((result) => result.error).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="kapa eval" tests="${run.results.length}" failures="${run.failed - errors}" errors="${errors}">`,
+    `  <testsuite name="${xml(run.suite)}" tests="${run.results.length}" failures="${run.failed - errors}" errors="${errors}" time="${totalSeconds.toFixed(3)}" timestamp="${xml(run.timestamp)}">`,
+  ];
+  for (const result of run.results) {
+    const open = `    <testcase classname="${xml(run.suite)}" name="${xml(result.id)}" time="${(result.latencyMs / 1000).toFixed(3)}"`;
+    if (result.passed) {
+      lines.push(`${open}/>`);
+      continue;
+    }
+    lines.push(`${open}>`);
+    const regression = regressions.get(result.id);
+    if (result.error) {
+      lines.push(`      <error message="${xml(result.error)}"/>`);
+    } else {
+      const failed = result.assertions.filter((assertion) => !assertion.passed);
+      const summary = `${regression ? 'REGRESSION: ' : ''}${failed.map((assertion) => assertion.name).join(', ')}`;
+      const details = failed.map((assertion) => `${assertion.name}: ${assertion.message}`).join('\n');
+      lines.push(`      <failure message="${xml(summary)}">${xml(details)}</failure>`);
+    }
+    lines.push(`      <system-out>${xml(`Q: ${result.question}\n\n${result.answer ?? ''}`)}</system-out>`);
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function toRegression(result: EvalCaseResult, assertions: AssertionResult[]): EvalRegression {
+  const failing = assertions.filter((assertion) => !assertion.passed);
+  return {
+    id: result.id,
+    assertions: result.error ? [] : failing.map((assertion) => assertion.name),
+    message: result.error ?? failing.map((assertion) => assertion.message).join('; '),
+  };
+}
+
+function toCaseResult(testCase: EvalCase, batchResult: BatchResult): EvalCaseResult {
+  const citations = batchResult.citations ?? [];
+  const base = {
+    id: testCase.id,
+    question: testCase.question,
+    latencyMs: batchResult.latencyMs,
+    answer: batchResult.answer,
+    citedUrls: citedUrls(citations),
+  };
+  if (batchResult.error) {
+    return {
+      ...base,
+      passed: false,
+      score: 0,
+      assertions: [{ name: 'answered', passed: false, message: batchResult.error }],
+      error: batchResult.error,
+    };
+  }
+  const assertions = scoreEvalCase(
+    testCase,
+    { answer: batchResult.answer ?? '', citations, followUps: batchResult.followUps ?? [] },
+    batchResult.latencyMs,
+  );
+  const passedCount = assertions.filter((assertion) => assertion.passed).length;
+  return {
+    ...base,
+    passed: passedCount === assertions.length,
+    score: Number((passedCount / assertions.length).toFixed(3)),
+    assertions,
+  };
+}
+
+function validateAssertions(raw: any, label: string): EvalAssertions {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${label} must be a mapping of assertions.`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!ASSERTION_KEYS.has(key)) {
+      throw new Error(`${label} has unknown assertion "${key}". Use one of: ${[...ASSERTION_KEYS].join(', ')}.`);
+    }
+  }
+  if (raw.maxLatency !== undefined && parseDuration(raw.maxLatency, 's') === null) {
+    throw new Error(`${label}.maxLatency must be a duration such as 20s.`);
+  }
+  for (const pattern of toList(raw.citeUrl)) {
+    compileUrlPattern(pattern);
+  }
+  return raw as EvalAssertions;
+}
+
+function compileUrlPattern(pattern: string) {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  try {
+    if (regex) return new RegExp(regex[1], regex[2] || 'i');
+  } catch (error: any) {
+    throw new Error(`Invalid citeUrl pattern ${pattern}: ${error?.message ?? error}`);
+  }
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(escaped, 'i');
+}
+
+function citedUrls(citations: Array<Record<string, any>>) {
+  return citations
+    .map((citation) => citation?.source_url ?? citation?.url ?? citation?.link)
+    .filter((url): url is string => typeof url === 'string' && url.length > 0);
+}
+
+function toList(value: string | string[] | undefined) {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function xml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -10,6 +10,28 @@ export interface NormalizedResponse {
   raw: any;
 }
 
+export interface ThreadTurn {
+  question: string;
+  answer: string;
+  citations: Array<Record<string, any>>;
+  questionAnswerId?: string;
+  createdAt?: string;
+}
+
+export interface NormalizedThread {
+  id?: string;
+  turns: ThreadTurn[];
+  raw: any;
+}
+
+export interface SearchResult {
+  title: string;
+  url?: string;
+  snippet: string;
+  score?: number;
+  raw: Record<string, any>;
+}
+
 const supportsHyperlinks =
   typeof stdoutStream !== 'undefined' && typeof stdoutStream.isTTY === 'boolean'
     ? stdoutStream.isTTY
@@ -43,6 +65,7 @@ export function normalizeResponse(payload: any): NormalizedResponse {
     payload?.citations ||
     payload?.source_documents ||
     payload?.sources ||
+    payload?.relevant_sources ||
     [];
 
   const followUps =
@@ -66,22 +89,78 @@ export function normalizeResponse(payload: any): NormalizedResponse {
   };
 }
 
+export function normalizeThread(payload: any): NormalizedThread {
+  const items =
+    payload?.question_answers ||
+    payload?.questionAnswers ||
+    payload?.messages ||
+    (Array.isArray(payload) ? payload : []);
+  const turns: ThreadTurn[] = (Array.isArray(items) ? items : []).map((item: any) => {
+    const normalized = normalizeResponse(item);
+    return {
+      question: item?.question || item?.query || item?.prompt || '',
+      answer: normalized.answer,
+      citations: normalized.citations,
+      questionAnswerId: item?.id || normalized.questionAnswerId,
+      createdAt: item?.created_at || item?.createdAt,
+    };
+  });
+  return {
+    id: payload?.id || payload?.thread_id,
+    turns,
+    raw: payload,
+  };
+}
+
 export function renderCitations(citations: Array<Record<string, any>>) {
   if (!citations.length) return '';
   const items = citations.map((citation, idx) => {
-    const url =
-      citation.url ||
-      citation.link ||
-      citation.href ||
-      citation?.source?.url ||
-      citation?.metadata?.url;
-    const title = citation.title || citation.name || url || `Source ${idx + 1}`;
+    const { title, url } = describeSource(citation, idx);
     const label = hyperlink(title, url);
     return `  ${idx + 1}. ${label}`;
   });
   return ['References:', ...items].join('\n');
 }
 
+export function normalizeSearchResults(payload: any): SearchResult[] {
+  const results =
+    payload?.search_results ||
+    payload?.results ||
+    payload?.relevant_sources ||
+    (Array.isArray(payload) ? payload : []);
+  if (!Array.isArray(results)) return [];
+
+  return results
+    .map((result: Record<string, any>, idx: number) => {
+      const { title, url } = describeSource(result, idx);
+      const snippet = result.content || result.snippet || result.text || result.chunk || '';
+      const rawScore = result.score ?? result.relevance ?? result.similarity;
+      return {
+        title,
+        url,
+        snippet: String(snippet),
+        score: typeof rawScore === 'number' ? rawScore : undefined,
+        raw: result,
+      };
+    })
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+export function renderSearchResults(results: SearchResult[], snippetLength = 240) {
+  if (!results.length) return '';
+  const blocks = results.map((result, idx) => {
+    const score = typeof result.score === 'number' ? chalk.dim(` (score ${result.score.toFixed(3)})`) : '';
+    const lines = [`${chalk.bold(`${idx + 1}.`)} ${hyperlink(result.title, result.url)}${score}`];
+    const snippet = result.snippet.replace(/\s+/g, ' ').trim();
+    if (snippet) {
+      const clipped = snippet.length > snippetLength ? `${snippet.slice(0, snippetLength - 1)}…` : snippet;
+      lines.push(`   ${chalk.dim(clipped)}`);
+    }
+    return lines.join('\n');
+  });
+  return blocks.join('\n\n');
+}
+
 export function renderFollowUps(followUps: NormalizedResponse['followUps']) {
   if (!followUps.length) return '';
   const items = followUps.map((item) => {
@@ -123,6 +202,18 @@ export function formatAnswerBlock(answer: string) {
   return collapseBlankLines(formatted).join('\n').trim();
 }
 
+export function describeSource(source: Record<string, any>, idx: number) {
+  const url =
+    source.url ||
+    source.source_url ||
+    source.link ||
+    source.href ||
+    source?.source?.url ||
+    source?.metadata?.url;
+  const title = source.title || source.name || url || `Source ${idx + 1}`;
+  return { title: String(title), url: url ? String(url) : undefined };
+}
+
 function formatTextLine(line: string) {
   const cleaned = stripMarkdown(line);
   if (/^\d+\.\s+/.test(cleaned)) {
@@ -2,7 +2,9 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 import os from 'node:os';
 import path from 'node:path';
-import { mkdtemp } from 'node:fs/promises';
+import { createCipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { performance } from 'node:perf_hooks';
 
 const historyRoot = await mkdtemp(path.join(os.tmpdir(), 'kapa-history-test-'));
 process.env.KAPA_DATA_DIR = historyRoot;
@@ -10,7 +12,27 @@ process.env.KAPA_HISTORY_KEY = 'unit-history-secret';
 delete process.env.KAPA_ALLOW_PLAINTEXT_HISTORY;
 
 const historyModule = await import('./history.js');
-const { appendHistory, readHistory, clearHistory } = historyModule;
+const {
+  appendHistory,
+  readHistory,
+  clearHistory,
+  recordFeedback,
+  getHistoryPath,
+  getLastQuestionAnswerId,
+  listThreads,
+  repairHistory,
+} = historyModule;
+
+/** Encrypts like security.ts, as a fixed reference for both on-disk formats. */
+function encryptFixture(version: 1 | 2, value: string, salt = randomBytes(16)) {
+  const prefix = `enc:v${version}:`;
+  const key = scryptSync(process.env.KAPA_HISTORY_KEY!, salt, 32);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (version === 2) cipher.setAAD(Buffer.from(prefix));
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return prefix + [salt, iv, encrypted, cipher.getAuthTag()].map((buf) => buf.toString('base64')).join('.');
+}
 
 test('history entries are encrypted and returned newest-first', async () => {
   await clearHistory();
@@ -38,3 +60,131 @@ test('history entries are encrypted and returned newest-first', async () => {
   const after = await readHistory();
   assert.equal(after.length, 0);
 });
+
+test('feedback verdicts are attached to matching entries', async () => {
+  await clearHistory();
+  await appendHistory({
+    timestamp: '2024-01-01T00:00:00Z',
+    profile: 'default',
+    prompt: 'first',
+    response: 'one',
+    questionAnswerId: 'qa1',
+  });
+  await appendHistory({
+    timestamp: '2024-01-02T00:00:00Z',
+    profile: 'default',
+    prompt: 'second',
+    response: 'two',
+    questionAnswerId: 'qa2',
+  });
+
+  assert.equal(await getLastQuestionAnswerId('default'), 'qa2');
+  const updated = await recordFeedback('qa1', {
+    verdict: 'down',
+    comment: 'outdated',
+    timestamp: '2024-01-03T00:00:00Z',
+  });
+  assert.equal(updated, 1);
+
+  const entries = await readHistory(5);
+  assert.equal(entries[0].feedback, undefined);
+  assert.equal(entries[1].feedback?.verdict, 'down');
+  assert.equal(entries[1].feedback?.comment, 'outdated');
+  await clearHistory();
+});
+
+test('threads are grouped and titled by their first prompt', async () => {
+  await clearHistory();
+  const base = { profile: 'default', response: 'ok' };
+  await appendHistory({ ...base, timestamp: '2024-01-01T00:00:00Z', prompt: 'How do I deploy?', threadId: 'a' });
+  await appendHistory({ ...base, timestamp: '2024-01-02T00:00:00Z', prompt: 'Unrelated', threadId: 'b' });
+  await appendHistory({ ...base, timestamp: '2024-01-03T00:00:00Z', prompt: 'And rollback?', threadId: 'a' });
+
+  const threads = await listThreads();
+  assert.deepEqual(
+    threads.map((thread) => [thread.threadId, thread.title, thread.turns]),
+    [
+      ['a', 'How do I deploy?', 2],
+      ['b', 'Unrelated', 1],
+    ],
+  );
+  await clearHistory();
+});
+
+test('enc:v2 history derives its key once per file instead of once per line', async () => {
+  const lines = 20;
+  const entry = (index: number) =>
+    JSON.stringify({
+      timestamp: `2024-01-01T00:00:${String(index).padStart(2, '0')}Z`,
+      profile: 'default',
+      prompt: `q${index}`,
+      response: 'a',
+    });
+  const readAll = async () => {
+    const started = performance.now();
+    const entries = await readHistory(Number.POSITIVE_INFINITY);
+    assert.equal(entries.length, lines);
+    assert.equal(entries[0].prompt, `q${lines - 1}`);
+    return performance.now() - started;
+  };
+
+  const legacy = Array.from({ length: lines }, (_, index) => encryptFixture(1, entry(index)));
+  await writeFile(getHistoryPath(), `${legacy.join('\n')}\n`, 'utf8');
+  const legacyMs = await readAll();
+
+  // A salt this process has never seen, so the v2 read starts with a cold key cache.
+  const salt = randomBytes(16);
+  const current = Array.from({ length: lines }, (_, index) => encryptFixture(2, entry(index), salt));
+  await writeFile(getHistoryPath(), `${current.join('\n')}\n`, 'utf8');
+  const currentMs = await readAll();
+
+  assert.ok(
+    legacyMs > currentMs * 4,
+    `expected enc:v2 to read ${lines} lines much faster: v1 ${legacyMs.toFixed(0)}ms, v2 ${currentMs.toFixed(0)}ms`,
+  );
+
+  // New lines keep the file's salt, so the next reader still needs one derivation.
+  await appendHistory({ timestamp: '2024-01-02T00:00:00Z', profile: 'default', prompt: 'new', response: 'b' });
+  const written = (await readFile(getHistoryPath(), 'utf8')).trim().split('\n');
+  assert.equal(written.length, lines + 1);
+  assert.ok(written[lines].startsWith(`enc:v2:${salt.toString('base64')}.`));
+  await clearHistory();
+});
+
+test('repair drops truncated and corrupt lines and keeps other keys unless asked', async () => {
+  await clearHistory();
+  const base = { timestamp: '2024-01-01T00:00:00Z', profile: 'default', response: 'ok' };
+  await appendHistory({ ...base, prompt: 'kept' });
+  const [intact] = (await readFile(getHistoryPath(), 'utf8')).trim().split('\n');
+  // A swapped salt derives a different key, like a line written under another history key.
+  const otherKey = encryptFixture(2, JSON.stringify({ ...base, prompt: 'other key' })).replace(
+    /^enc:v2:[^.]+/,
+    `enc:v2:${randomBytes(16).toString('base64')}`,
+  );
+  const lines = [
+    intact,
+    intact.slice(0, intact.length - 30),
+    encryptFixture(2, '{"timestamp":'),
+    otherKey,
+    intact,
+  ];
+  await writeFile(getHistoryPath(), `${lines.join('\n')}\n`, 'utf8');
+
+  const preview = await repairHistory({ dryRun: true });
+  assert.deepEqual(preview.dropped, [
+    { line: 2, reason: 'truncated' },
+    { line: 3, reason: 'corrupt' },
+  ]);
+  assert.deepEqual([preview.kept, preview.undecryptable], [3, 1]);
+  assert.equal((await readFile(getHistoryPath(), 'utf8')).trim().split('\n').length, 5);
+
+  await repairHistory();
+  assert.equal((await readFile(getHistoryPath(), 'utf8')).trim().split('\n').length, 3);
+  const strict = await repairHistory({ dropUndecryptable: true });
+  assert.deepEqual(strict.dropped, [{ line: 2, reason: 'undecryptable' }]);
+  assert.deepEqual(
+    (await readHistory(10)).map((entry) => entry.prompt),
+    ['kept', 'kept'],
+  );
+  await clearHistory();
+});
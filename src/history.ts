@@ -1,7 +1,18 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
-import { encodeSecret, decodeSecret, isEncryptedValue } from './security.js';
+import {
+  encodeSecret,
+  decodeSecret,
+  getEncryptionVersion,
+  getSecretSalt,
+  hasSecureKey,
+  isEncryptedValue,
+  isWellFormedSecret,
+  tryDecodeSecret,
+} from './security.js';
+import type { AskStats } from './stats.js';
+import { appendFilePrivate, withFileLock, writeFileAtomic } from './storage.js';
 
 export interface HistoryEntry {
   timestamp: string;
@@ -11,18 +22,70 @@ export interface HistoryEntry {
   threadId?: string;
   questionAnswerId?: string;
   metadata?: Record<string, unknown>;
+  feedback?: HistoryFeedback;
+  /** Set when the answer was cut short (e.g. Ctrl+C) and `response` is partial. */
+  truncated?: boolean;
+  /** Timing and size of the answer; failed requests are recorded with `errorClass` set. */
+  stats?: AskStats;
 }
 
+export interface HistoryFeedback {
+  verdict: 'up' | 'down';
+  comment?: string;
+  timestamp: string;
+}
+
+export interface HistoryInspection {
+  path: string;
+  exists: boolean;
+  entries: number;
+  encrypted: number;
+  /** Encrypted lines still in the enc:v1 format, which costs one key derivation each to read. */
+  legacy: number;
+  /** Encrypted lines the current history key cannot open. */
+  undecryptable: number;
+  /** Broken encrypted payloads and lines that decode but are not valid JSON. */
+  corrupt: number;
+}
+
+export interface HistoryRepairOptions {
+  dryRun?: boolean;
+  /** Also drop well-formed lines the current key cannot open. */
+  dropUndecryptable?: boolean;
+}
+
+export interface DroppedHistoryLine {
+  line: number;
+  /** `truncated`: broken encrypted payload; `corrupt`: decodes but is not a JSON entry. */
+  reason: 'truncated' | 'corrupt' | 'undecryptable';
+}
+
+export interface HistoryRepair {
+  path: string;
+  kept: number;
+  dropped: DroppedHistoryLine[];
+  /** Lines kept because they may belong to another key. */
+  undecryptable: number;
+  dryRun: boolean;
+}
+
+export interface ThreadSummary {
+  threadId: string;
+  profile: string;
+  title: string;
+  turns: number;
+  lastTimestamp: string;
+}
+
+const THREAD_TITLE_LENGTH = 60;
+const SALT_PROBE_BYTES = 64;
+
 const HISTORY_DIR =
   process.env.KAPA_DATA_DIR ?? path.join(os.homedir(), '.local', 'share', 'kapa-cli');
 const HISTORY_PATH = path.join(HISTORY_DIR, 'history.jsonl');
 
 let historyDisabledMessage: string | null = null;
 
-async function ensureHistoryDir() {
-  await fs.mkdir(HISTORY_DIR, { recursive: true });
-}
-
 export function getHistoryPath() {
   return HISTORY_PATH;
 }
@@ -31,11 +94,13 @@ export async function appendHistory(entry: HistoryEntry) {
   if (historyDisabledMessage) {
     return;
   }
-  await ensureHistoryDir();
   const serialized = JSON.stringify(entry);
   try {
-    const payload = `${encodeSecret(serialized, 'history')}\n`;
-    await fs.appendFile(HISTORY_PATH, payload, 'utf8');
+    await withFileLock(HISTORY_PATH, async () => {
+      const salt = await readFileSalt();
+      const payload = `${encodeSecret(serialized, 'history', { salt })}\n`;
+      await appendFilePrivate(HISTORY_PATH, payload);
+    });
   } catch (error: any) {
     historyDisabledMessage = error?.message ?? 'History storage disabled.';
     process.stderr.write(`[kapa] ${historyDisabledMessage}\n`);
@@ -46,18 +111,18 @@ export async function readHistory(limit = 10) {
   try {
     const raw = await fs.readFile(HISTORY_PATH, 'utf8');
     const lines = raw.split('\n').filter(Boolean);
-    const items = lines
-      .map((line) => {
-        const decoded = decodeHistoryLine(line);
-        if (!decoded) return null;
-        try {
-          return JSON.parse(decoded) as HistoryEntry;
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean) as HistoryEntry[];
-    return items.slice(-limit).reverse();
+    // Walk from the end so only the lines that are returned get decrypted.
+    const items: HistoryEntry[] = [];
+    for (let index = lines.length - 1; index >= 0 && items.length < limit; index -= 1) {
+      const decoded = decodeHistoryLine(lines[index]);
+      if (!decoded) continue;
+      try {
+        items.push(JSON.parse(decoded) as HistoryEntry);
+      } catch {
+        // Skip corrupt lines.
+      }
+    }
+    return items;
   } catch (error: any) {
     if (error?.code === 'ENOENT') {
       return [];
@@ -67,13 +132,15 @@ export async function readHistory(limit = 10) {
 }
 
 export async function clearHistory() {
-  try {
-    await fs.unlink(HISTORY_PATH);
-  } catch (error: any) {
-    if (error?.code !== 'ENOENT') {
-      throw error;
+  await withFileLock(HISTORY_PATH, async () => {
+    try {
+      await fs.unlink(HISTORY_PATH);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
     }
-  }
+  });
 }
 
 export async function getLastThread(profile: string) {
@@ -86,6 +153,167 @@ export async function getLastThread(profile: string) {
   return null;
 }
 
+/**
+ * Groups local history by thread, newest activity first. Titles come from the first prompt.
+ */
+export async function listThreads(profile?: string) {
+  const history = await readHistory(Number.POSITIVE_INFINITY);
+  const threads = new Map<string, ThreadSummary>();
+  // readHistory is newest-first, so walk backwards to see each thread's first prompt first.
+  for (const entry of [...history].reverse()) {
+    if (!entry.threadId) continue;
+    if (profile && entry.profile !== profile) continue;
+    const existing = threads.get(entry.threadId);
+    if (existing) {
+      existing.turns += 1;
+      existing.lastTimestamp = entry.timestamp;
+      continue;
+    }
+    threads.set(entry.threadId, {
+      threadId: entry.threadId,
+      profile: entry.profile,
+      title: deriveTitle(entry.prompt),
+      turns: 1,
+      lastTimestamp: entry.timestamp,
+    });
+  }
+  return [...threads.values()].sort((a, b) => b.lastTimestamp.localeCompare(a.lastTimestamp));
+}
+
+export async function getLastQuestionAnswerId(profile: string) {
+  const history = await readHistory(200);
+  for (const entry of history) {
+    if (entry.profile === profile && entry.questionAnswerId) {
+      return entry.questionAnswerId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Attaches a feedback verdict to every stored entry for the given question-answer id.
+ * Lines that cannot be decoded are written back untouched. Returns the number of updated entries.
+ */
+export async function recordFeedback(questionAnswerId: string, feedback: HistoryFeedback) {
+  return withFileLock(HISTORY_PATH, async () => {
+    const raw = await readHistoryFile();
+    return raw === null ? 0 : rewriteFeedback(raw, questionAnswerId, feedback);
+  });
+}
+
+async function rewriteFeedback(raw: string, questionAnswerId: string, feedback: HistoryFeedback) {
+  let updated = 0;
+  const rawLines = raw.split('\n').filter(Boolean);
+  const salt = getSecretSalt(rawLines[0] ?? '') ?? undefined;
+  const lines = rawLines.map((line) => {
+    const decoded = decodeHistoryLine(line);
+    if (!decoded) return line;
+    let entry: HistoryEntry;
+    try {
+      entry = JSON.parse(decoded) as HistoryEntry;
+    } catch {
+      return line;
+    }
+    if (entry.questionAnswerId !== questionAnswerId) return line;
+    updated += 1;
+    const next = JSON.stringify({ ...entry, feedback });
+    return isEncryptedValue(line) ? encodeSecret(next, 'history', { salt }) : next;
+  });
+
+  if (updated) {
+    await writeFileAtomic(HISTORY_PATH, `${lines.join('\n')}\n`);
+  }
+  return updated;
+}
+
+/**
+ * Drops lines that can never be read: broken encrypted payloads (e.g. a write cut short)
+ * and lines that decode but are not JSON. Lines that merely do not decrypt with the current
+ * key are kept unless `dropUndecryptable` is set, since they may belong to an older key.
+ */
+export async function repairHistory(options: HistoryRepairOptions = {}): Promise<HistoryRepair> {
+  if (options.dropUndecryptable && !hasSecureKey('history')) {
+    throw new Error('Set KAPA_HISTORY_KEY (or KAPA_VAULT_KEY) before dropping undecryptable entries.');
+  }
+  return withFileLock(HISTORY_PATH, async () => {
+    const repair: HistoryRepair = {
+      path: HISTORY_PATH,
+      kept: 0,
+      dropped: [],
+      undecryptable: 0,
+      dryRun: Boolean(options.dryRun),
+    };
+    const raw = await readHistoryFile();
+    if (raw === null) return repair;
+
+    const kept: string[] = [];
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      const drop = (reason: DroppedHistoryLine['reason']) => repair.dropped.push({ line: index + 1, reason });
+      if (isEncryptedValue(line) && !isWellFormedSecret(line)) return drop('truncated');
+      const decoded = tryDecodeSecret(line, 'history');
+      if (decoded === null) {
+        if (options.dropUndecryptable) return drop('undecryptable');
+        repair.undecryptable += 1;
+        kept.push(line);
+        return;
+      }
+      try {
+        const entry = JSON.parse(decoded);
+        if (!entry || typeof entry !== 'object') return drop('corrupt');
+      } catch {
+        return drop('corrupt');
+      }
+      kept.push(line);
+    });
+    repair.kept = kept.length;
+
+    if (repair.dropped.length && !options.dryRun) {
+      await writeFileAtomic(HISTORY_PATH, kept.length ? `${kept.join('\n')}\n` : '');
+    }
+    return repair;
+  });
+}
+
+/**
+ * Counts readable, undecryptable and corrupt lines without printing key warnings. Used by
+ * `kapa doctor`; read errors other than a missing file are thrown.
+ */
+export async function inspectHistory(): Promise<HistoryInspection> {
+  const inspection: HistoryInspection = {
+    path: HISTORY_PATH,
+    exists: false,
+    entries: 0,
+    encrypted: 0,
+    legacy: 0,
+    undecryptable: 0,
+    corrupt: 0,
+  };
+  const raw = await readHistoryFile();
+  if (raw === null) return inspection;
+  inspection.exists = true;
+  for (const line of raw.split('\n').filter(Boolean)) {
+    if (isEncryptedValue(line)) inspection.encrypted += 1;
+    if (getEncryptionVersion(line) === 1) inspection.legacy += 1;
+    if (isEncryptedValue(line) && !isWellFormedSecret(line)) {
+      inspection.corrupt += 1;
+      continue;
+    }
+    const decoded = tryDecodeSecret(line, 'history');
+    if (decoded === null) {
+      inspection.undecryptable += 1;
+      continue;
+    }
+    try {
+      JSON.parse(decoded);
+      inspection.entries += 1;
+    } catch {
+      inspection.corrupt += 1;
+    }
+  }
+  return inspection;
+}
+
 export function getHistoryStatus() {
   return {
     disabled: Boolean(historyDisabledMessage),
@@ -93,6 +321,43 @@ export function getHistoryStatus() {
   };
 }
 
+export function deriveTitle(prompt: string) {
+  const firstLine = prompt.split('\n').find((line) => line.trim()) ?? '';
+  const clean = firstLine.replace(/\s+/g, ' ').trim();
+  return clean.length > THREAD_TITLE_LENGTH ? `${clean.slice(0, THREAD_TITLE_LENGTH - 1)}…` : clean;
+}
+
+async function readHistoryFile() {
+  try {
+    return await fs.readFile(HISTORY_PATH, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * enc:v2 salt of the first line. Appends reuse it so the whole file decrypts with a single key
+ * derivation; a file that starts with plaintext or enc:v1 lines gets a per-process salt until
+ * `kapa vault migrate` rewrites it.
+ */
+async function readFileSalt() {
+  let handle;
+  try {
+    handle = await fs.open(HISTORY_PATH, 'r');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return undefined;
+    throw error;
+  }
+  try {
+    const buffer = Buffer.alloc(SALT_PROBE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SALT_PROBE_BYTES, 0);
+    return getSecretSalt(buffer.toString('utf8', 0, bytesRead)) ?? undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
 function decodeHistoryLine(line: string) {
   if (!line) return null;
   if (!isEncryptedValue(line)) {
@@ -1,48 +1,116 @@
 #!/usr/bin/env node
-import { writeFile } from 'fs/promises';
+import { appendFile, readFile, stat, writeFile } from 'fs/promises';
 import readline from 'node:readline';
 import { stdin as stdinStream, stdout as stdoutStream } from 'node:process';
 import os from 'node:os';
+import path from 'node:path';
 import chalk from 'chalk';
 import clipboard from 'clipboardy';
 import { Command } from 'commander';
 import ora from 'ora';
 import pkg from '../package.json' with { type: 'json' };
-import { sendChat } from './api.js';
+import { KapaCancelledError } from './api.js';
+import type { KapaStreamEvent } from './api.js';
+import { detectBatchFormat, parseBatchInput, prepareBatchOutput, runBatch } from './batch.js';
 import {
+  buildCacheKey,
+  clearCache,
+  getCachePath,
+  getCacheStats,
+  listCachedAnswers,
+  pruneCache,
+  readCachedAnswer,
+  writeCachedAnswer,
+} from './cache.js';
+import { KapaClient } from './client.js';
+import { chooseLayout, diffWords, renderComparison, renderWordDiff } from './compare.js';
+import type { CompareLayout, CompareResult } from './compare.js';
+import { renderDoctorReport, runDoctor } from './doctor.js';
+import { getScopeKeyName } from './security.js';
+import type { SecureScope } from './security.js';
+import {
+  detectSuiteFormat,
+  diffEvalRuns,
+  parseEvalSuite,
+  renderJUnit,
+  runEvalSuite,
+} from './eval.js';
+import type { EvalRun } from './eval.js';
+import type { KapaAnswer } from './client.js';
+import { startMockServer } from './mock-server.js';
+import type { MockServerOptions } from './mock-server.js';
+import type { RetryInfo } from './retry.js';
+import { classifyAskError, renderUsageReport, summarizeUsage } from './stats.js';
+import type { AskStats } from './stats.js';
+import { configureLogging, createLogger, isLogLevelEnabled } from './trace.js';
+import { finishVaultRewrite, getVaultStatus, migrateVault, rotateVault } from './vault.js';
+import {
+  applyConfigImport,
+  copyProfile,
   createProfile,
   deleteProfile,
+  describeConfigResolution,
+  exportProfiles,
+  findProjectConfig,
   getConfigDirectory,
   getConfigPath,
   listProfiles,
   loadConfig,
   normalizeConfigKey,
+  parseConfigBundle,
+  planConfigImport,
+  renameProfile,
   resolveProfile,
   setConfigValue,
   summarizeProfile,
+  unsetConfigValue,
 } from './config.js';
+import type { ConfigImportPlan, ProfileConfig, ValueSource } from './config.js';
 import {
   appendHistory,
   clearHistory,
   getHistoryPath,
+  getLastQuestionAnswerId,
   getLastThread,
+  listThreads,
   readHistory,
   getHistoryStatus,
+  recordFeedback,
+  repairHistory,
 } from './history.js';
 import {
   normalizeResponse,
   renderCitations,
+  renderSearchResults,
   renderFollowUps,
   formatAnswerBlock,
 } from './format.js';
-import { parseMetadata, readFromStdin, timestamp, extractCodeBlocks } from './utils.js';
-
-interface AskOptions {
+import {
+  formatDuration,
+  parseDuration,
+  parseMetadata,
+  promptTerminal,
+  readFromStdin,
+  timestamp,
+  extractCodeBlocks,
+} from './utils.js';
+
+interface ConnectionOptions {
   profile?: string;
   apiKey?: string;
   project?: string;
   integration?: string;
   baseUrl?: string;
+  maxAttempts?: string;
+  retry?: boolean;
+  proxy?: string;
+  caFile?: string;
+  insecure?: boolean;
+  timeout?: string;
+  idleTimeout?: string;
+}
+
+interface AskOptions extends ConnectionOptions {
   thread?: string;
   resume?: string | boolean;
   metadata?: string[];
@@ -55,31 +123,124 @@ interface AskOptions {
   save?: string;
   output?: string;
   history?: boolean;
+  cache?: boolean;
+  cacheTtl?: string;
   quiet?: boolean;
   'no-history'?: boolean;
 }
 
+interface SearchCommandOptions extends ConnectionOptions {
+  limit?: string;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+interface ThreadCommandOptions extends ConnectionOptions {
+  json?: boolean;
+  quiet?: boolean;
+}
+
+interface FeedbackCommandOptions extends ConnectionOptions {
+  comment?: string;
+  user?: string;
+}
+
+interface BatchCommandOptions extends ConnectionOptions {
+  output?: string;
+  concurrency: string;
+  rate?: string;
+  resume?: boolean;
+  force?: boolean;
+  quiet?: boolean;
+}
+
+interface EvalCommandOptions extends ConnectionOptions {
+  baseline?: string;
+  updateBaseline?: boolean;
+  junit?: string;
+  concurrency: string;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+interface HistoryCommandOptions {
+  json?: boolean;
+  dryRun?: boolean;
+  dropUndecryptable?: boolean;
+}
+
+interface StatsCommandOptions {
+  since?: string;
+  profile?: string;
+  json?: boolean;
+}
+
+interface ConfigCommandOptions {
+  profile?: string;
+  resolved?: boolean;
+  includeSecrets?: boolean;
+  output?: string;
+  merge?: boolean;
+  replace?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+  json?: boolean;
+}
+
+interface VaultCommandOptions {
+  scope: string;
+  oldKeyEnv?: string;
+  newKeyEnv?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+interface DoctorCommandOptions {
+  profile?: string;
+  timeout?: string;
+  json?: boolean;
+}
+
+interface CompareCommandOptions {
+  profiles: string;
+  layout: string;
+  diff?: boolean;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+interface MockServerCommandOptions {
+  port: string;
+  host: string;
+  script?: string;
+  latency?: string;
+  chunkDelay?: string;
+  apiKey?: string;
+}
+
 interface AskResult {
   prompt: string;
   answer: string;
   threadId?: string;
   questionAnswerId?: string;
+  interrupted?: boolean;
 }
 
-const debugEnabled = process.env.DEBUG_KAPA === '1';
-const debugLog = (...args: unknown[]) => {
-  if (!debugEnabled) return;
-  process.stderr.write(`[debug] ${args.map(String).join(' ')}\n`);
-};
+const log = createLogger('cli');
+// `kapa dev mock-server` streams at a readable pace unless the flag or script says otherwise.
+const DEFAULT_CHUNK_DELAY_MS = 30;
 
-if (debugEnabled) {
-  process.on('beforeExit', (code) => debugLog('beforeExit', code));
-  process.on('exit', (code) => debugLog('exit', code));
-  process.on('uncaughtException', (error) => {
-    debugLog('uncaughtException', error?.stack ?? error);
+function installDebugHooks() {
+  process.on('beforeExit', (code) => log.debug('beforeExit', { code }));
+  process.on('exit', (code) => log.debug('exit', { code }));
+  // A monitor only observes, so crashes still exit instead of being swallowed while debugging.
+  process.on('uncaughtExceptionMonitor', (error) => {
+    log.debug('uncaughtException', { error: error?.stack ?? String(error) });
   });
   process.on('unhandledRejection', (reason) => {
-    debugLog('unhandledRejection', typeof reason === 'object' ? JSON.stringify(reason) : String(reason));
+    log.debug('unhandledRejection', {
+      reason: typeof reason === 'object' ? JSON.stringify(reason) : String(reason),
+    });
   });
 }
 
@@ -88,7 +249,17 @@ const program = new Command();
 program
   .name('kapa')
   .description('Interact with the Kapa AI HTTP API from the terminal.')
-  .version(pkg.version);
+  .version(pkg.version)
+  // Keep root flags such as --profile from swallowing the same flag on subcommands.
+  .enablePositionalOptions()
+  .option('--verbose', 'Log debug details (HTTP summaries, cache, retries) to stderr')
+  .option('--log-level <level>', 'silent, error, warn, info, debug or trace')
+  .option('--trace <file>', 'Record every API exchange to a HAR-style JSON file ("-" for stderr)')
+  .hook('preAction', () => {
+    const { verbose, logLevel, trace } = program.opts<{ verbose?: boolean; logLevel?: string; trace?: string }>();
+    configureLogging({ verbose, level: logLevel, trace });
+    if (isLogLevelEnabled('debug')) installDebugHooks();
+  });
 
 program
   .argument('[prompt...]', 'Prompt to send to Kapa')
@@ -110,23 +281,33 @@ program
   .option('--save <file>', 'Save the final answer to a file')
   .option('-o, --output <file>', 'Alias for --save')
   .option('--no-history', 'Skip writing to local history')
+  .option('--cache', 'Reuse a cached answer for repeated questions (never for threads)')
+  .option('--no-cache', 'Bypass the answer cache for this request')
+  .option('--cache-ttl <duration>', 'How long a new answer stays cached (e.g. 1h, 7d)')
   .option('--quiet', 'Suppress spinner output')
+  .option('--max-attempts <n>', 'Maximum attempts for retryable API errors')
+  .option('--no-retry', 'Fail on the first API error instead of retrying')
+  .option('--proxy <url>', 'HTTP(S) proxy for API requests ("none" to bypass env proxies)')
+  .option('--ca-file <path>', 'Extra PEM root certificate(s) to trust')
+  .option('--insecure', 'Skip TLS certificate verification (debugging only)')
+  .option('--timeout <duration>', 'Abort if the answer takes longer (e.g. 90s, 2m; 0 disables)')
+  .option('--idle-timeout <duration>', 'Abort if the stream is silent this long (e.g. 30s)')
   .action(async (promptParts: string[], options: AskOptions) => {
     try {
-      debugLog(
-        'entry',
-        JSON.stringify({
-          promptParts,
-          stdinTTY: stdinStream.isTTY,
-          stdoutTTY: stdoutStream.isTTY,
-          interactive: shouldStartInteractiveSession(promptParts, options),
-        }),
-      );
+      log.debug('entry', {
+        promptParts,
+        stdinTTY: stdinStream.isTTY,
+        stdoutTTY: stdoutStream.isTTY,
+        interactive: shouldStartInteractiveSession(promptParts, options),
+      });
       if (shouldStartInteractiveSession(promptParts, options)) {
         await startInteractiveSession(options);
         return;
       }
-      await handleAsk(promptParts, options);
+      const result = await handleAsk(promptParts, options);
+      if (result.interrupted) {
+        process.exitCode = 130;
+      }
     } catch (error: any) {
       process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
       process.exitCode = 1;
@@ -136,13 +317,26 @@ program
 program
   .command('config')
   .description('Manage kapa CLI configuration')
-  .argument('[action]', 'Action to perform (list, set, get, path, dir, profile)', 'list')
+  .argument(
+    '[action]',
+    'Action to perform (list, set, unset, get, path, dir, profile, export, import)',
+    'list',
+  )
   .argument('[key]')
   .argument('[value]')
-  .option('-p, --profile <name>', 'Target profile for get/set')
-  .action(async (action: string, key: string | undefined, value: string | undefined, options) => {
+  .argument('[target]', 'With profile rename/copy: the new profile name')
+  .option('-p, --profile <name>', 'Target profile for get/set/unset/export')
+  .option('--resolved', 'With list: show effective values for this directory and their sources')
+  .option('--include-secrets', 'With export: include API keys and helper commands, sealed with a passphrase')
+  .option('-o, --output <file>', 'With export: write to a file instead of stdout')
+  .option('--merge', 'With import: only overwrite keys present in the file (default)')
+  .option('--replace', 'With import: replace each imported profile entirely')
+  .option('--dry-run', 'With import: show the changes without writing them')
+  .option('-y, --yes', 'With import: overwrite conflicting values without asking')
+  .option('--json', 'With profile show: output as JSON')
+  .action(async (action: string, key: string | undefined, value: string | undefined, target, options) => {
     try {
-      await handleConfig(action, key, value, options.profile);
+      await handleConfig(action, [key, value, target], options);
     } catch (error: any) {
       process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
       process.exitCode = 1;
@@ -152,11 +346,174 @@ program
 program
   .command('history')
   .description('Inspect stored prompts/responses')
-  .argument('[limitOrAction]', 'Number of entries to show or "clear"')
+  .argument('[limitOrAction]', 'Number of entries to show, "clear" or "repair"')
   .option('--json', 'Output as JSON')
-  .action(async (limitOrAction: string | undefined, options: { json?: boolean }) => {
+  .option('--dry-run', 'With repair: report damaged lines without rewriting the file')
+  .option('--drop-undecryptable', 'With repair: also drop entries the current key cannot decrypt')
+  .action(async (limitOrAction: string | undefined, options: HistoryCommandOptions) => {
     try {
-      await handleHistory(limitOrAction, options.json);
+      await handleHistory(limitOrAction, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('stats')
+  .description('Usage, latency and error statistics from local history')
+  .option('--since <duration>', 'Only include questions from the last period (e.g. 30d, 12h)')
+  .option('-p, --profile <name>', 'Only include one profile')
+  .option('--json', 'Output the report as JSON')
+  .action(async (options: StatsCommandOptions) => {
+    try {
+      await handleStats(options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('search')
+  .description('Find relevant sources without generating an answer')
+  .argument('<query...>', 'Search query')
+  .option('-p, --profile <name>', 'Select a config profile')
+  .option('-k, --api-key <key>', 'Override API key')
+  .option('--project <id>', 'Override project id')
+  .option('--integration <id>', 'Override integration id')
+  .option('--base-url <url>', 'Override API base URL')
+  .option('-n, --limit <count>', 'Maximum number of results', '5')
+  .option('--json', 'Output results as JSON')
+  .option('--quiet', 'Suppress spinner output')
+  .action(async (queryParts: string[], options: SearchCommandOptions) => {
+    try {
+      await handleSearch(queryParts, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('thread')
+  .description('Inspect conversation threads')
+  .argument('<action>', 'show or list')
+  .argument('[id]', 'Thread id for "show" (defaults to the last thread)')
+  .option('-p, --profile <name>', 'Select a config profile')
+  .option('-k, --api-key <key>', 'Override API key')
+  .option('--base-url <url>', 'Override API base URL')
+  .option('--json', 'Output as JSON')
+  .option('--quiet', 'Suppress spinner output')
+  .action(async (action: string, id: string | undefined, options: ThreadCommandOptions) => {
+    try {
+      await handleThread(action, id, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('feedback')
+  .description('Rate an answer by its question-answer id')
+  .argument('<id>', 'Question-answer id, or "last" for the most recent answer')
+  .argument('<verdict>', 'up or down')
+  .option('-p, --profile <name>', 'Select a config profile')
+  .option('-k, --api-key <key>', 'Override API key')
+  .option('--base-url <url>', 'Override API base URL')
+  .option('--comment <text>', 'Explain the rating')
+  .option('--user <identifier>', 'Set user identifier')
+  .action(async (id: string, verdict: string, options: FeedbackCommandOptions) => {
+    try {
+      await handleFeedback(id, verdict, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('compare')
+  .description('Ask one question against several profiles and compare the answers')
+  .argument('<prompt...>', 'Question to ask every profile')
+  .requiredOption('--profiles <names>', 'Comma-separated profiles, e.g. public,internal')
+  .option('--layout <mode>', 'auto, side or stacked', 'auto')
+  .option('--no-diff', 'Skip the word-level diff between answers')
+  .option('--json', 'Output answers and diffs as JSON')
+  .option('--quiet', 'Suppress spinner output')
+  .action(async (promptParts: string[], options: CompareCommandOptions) => {
+    try {
+      await handleCompare(promptParts, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('batch')
+  .description('Ask every question in a .jsonl or .txt file and write JSONL results')
+  .argument('<file>', 'Questions file: JSONL rows with "prompt" (and optional id, metadata, thread, profile) or one prompt per line')
+  .option('-p, --profile <name>', 'Default config profile for rows without one')
+  .option('-k, --api-key <key>', 'Override API key')
+  .option('--project <id>', 'Override project id')
+  .option('--integration <id>', 'Override integration id')
+  .option('--base-url <url>', 'Override API base URL')
+  .option('-o, --output <file>', 'Results file (default: <file>.results.jsonl)')
+  .option('-c, --concurrency <n>', 'Requests in flight at once', '4')
+  .option('--rate <perMinute>', 'Maximum requests started per minute')
+  .option('--timeout <duration>', 'Abort a single question after this long')
+  .option('--resume', 'Skip rows already answered in the results file')
+  .option('--force', 'Overwrite an existing results file')
+  .option('--quiet', 'Suppress progress output')
+  .action(async (file: string, options: BatchCommandOptions) => {
+    try {
+      await handleBatch(file, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('eval')
+  .description('Run a golden-question suite and compare it with the stored baseline')
+  .argument('<suite>', 'YAML or JSON suite of questions with assertions')
+  .option('-p, --profile <name>', 'Select a config profile')
+  .option('-k, --api-key <key>', 'Override API key')
+  .option('--project <id>', 'Override project id')
+  .option('--integration <id>', 'Override integration id')
+  .option('--base-url <url>', 'Override API base URL')
+  .option('--baseline <file>', 'Baseline run to diff against (default: <suite>.baseline.json)')
+  .option('--update-baseline', 'Store this run as the new baseline')
+  .option('--junit <file>', 'Write JUnit XML results for CI')
+  .option('-c, --concurrency <n>', 'Questions in flight at once', '2')
+  .option('--json', 'Print the run and diff as JSON')
+  .option('--quiet', 'Suppress progress output')
+  .action(async (suiteFile: string, options: EvalCommandOptions) => {
+    try {
+      await handleEval(suiteFile, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+const dev = program.command('dev').description('Developer tools');
+
+dev
+  .command('mock-server')
+  .description('Run a local mock of the Kapa API for offline development')
+  .option('--port <n>', 'Port to listen on', '4010')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--script <file>', 'JSON file with scripted replies (array or mock server options)')
+  .option('--latency <duration>', 'Delay before each response (e.g. 500ms, 2s)')
+  .option('--chunk-delay <duration>', 'Delay between streamed chunks (default: script value, else 30ms)')
+  .option('--api-key <key>', 'Only accept this X-API-KEY')
+  .action(async (options: MockServerCommandOptions) => {
+    try {
+      await handleMockServer(options);
     } catch (error: any) {
       process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
       process.exitCode = 1;
@@ -165,21 +522,83 @@ program
 
 program
   .command('cache')
-  .description('Manage cached history data')
-  .argument('<action>', 'Currently only "clear" is supported')
-  .action(async (action: string) => {
+  .description('Inspect and manage the local answer cache')
+  .argument('<action>', 'stats, list, prune or clear')
+  .option('--json', 'Output as JSON')
+  .action(async (action: string, options: { json?: boolean }) => {
     try {
-      if (action !== 'clear') {
-        throw new Error('cache command supports only the "clear" action.');
-      }
-      await clearHistory();
-      process.stdout.write(`${chalk.green('✓')} Cleared cached history (${getHistoryPath()})\n`);
+      await handleCache(action, options.json);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('vault')
+  .description('Inspect encrypted storage, rotate the encryption key or upgrade its format')
+  .argument('<action>', 'status, rotate or migrate')
+  .option('--scope <scope>', 'With rotate/migrate: config, history or all', 'all')
+  .option('--old-key-env <name>', 'With rotate: env var holding the current key (default: prompt)')
+  .option('--new-key-env <name>', 'With rotate: env var holding the new key (default: prompt)')
+  .option('--dry-run', 'With rotate/migrate: report what would change without writing')
+  .option('--json', 'Output as JSON')
+  .action(async (action: string, options: VaultCommandOptions) => {
+    try {
+      await handleVault(action, options);
+    } catch (error: any) {
+      process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Check config, keys, history, network and API access')
+  .option('-p, --profile <name>', 'Profile to test (defaults to the default profile)')
+  .option('--timeout <duration>', 'Budget for each network check (e.g. 5s)')
+  .option('--json', 'Output the report as JSON')
+  .action(async (options: DoctorCommandOptions) => {
+    try {
+      await handleDoctor(options);
     } catch (error: any) {
       process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
       process.exitCode = 1;
     }
   });
 
+async function resolveConnection(options: ConnectionOptions) {
+  const maxAttempts =
+    options.retry === false
+      ? 1
+      : options.maxAttempts !== undefined
+        ? Number(options.maxAttempts)
+        : undefined;
+  const client = await KapaClient.fromProfile({
+    profile: options.profile,
+    apiKey: options.apiKey,
+    projectId: options.project,
+    integrationId: options.integration,
+    baseUrl: options.baseUrl,
+    retry: Number.isFinite(maxAttempts) ? { maxAttempts } : undefined,
+    proxy: options.proxy,
+    caFile: options.caFile,
+    insecureSkipVerify: options.insecure,
+    timeoutMs: resolveDurationOption('--timeout', options.timeout),
+    idleTimeoutMs: resolveDurationOption('--idle-timeout', options.idleTimeout),
+  });
+  return { client, resolved: client.profile! };
+}
+
+function resolveDurationOption(flag: string, input: string | undefined) {
+  if (input === undefined) return undefined;
+  const parsed = parseDuration(input, 's');
+  if (parsed === null) {
+    throw new Error(`${flag} expects a duration such as 30s, 2m or 500ms.`);
+  }
+  return parsed;
+}
+
 function collectValues(value: string, previous: string[]) {
   previous.push(value);
   return previous;
@@ -198,36 +617,20 @@ async function handleAsk(promptParts: string[], options: AskOptions): Promise<As
     throw new Error('No prompt provided. Pass text or pipe stdin with --stdin.');
   }
 
-  const config = await loadConfig();
-  const resolved = resolveProfile(config, options.profile);
-  debugLog('handleAsk resolved profile', resolved.name);
-
-  const apiKey =
-    options.apiKey ?? process.env.KAPA_API_KEY ?? resolved.values.apiKey ?? '';
-  const projectId =
-    options.project ?? process.env.KAPA_PROJECT_ID ?? resolved.values.projectId ?? '';
-  const integrationId =
-    options.integration ??
-    process.env.KAPA_INTEGRATION_ID ??
-    resolved.values.integrationId ??
-    '';
-  const baseUrl = options.baseUrl ?? process.env.KAPA_BASE_URL ?? resolved.values.baseUrl;
-  if (!apiKey) {
-    throw new Error('API key missing. Set KAPA_API_KEY or run "kapa config set apiKey <value>".');
-  }
-  if (!integrationId) {
+  const { client, resolved } = await resolveConnection(options);
+  log.debug('ask resolved profile', { profile: resolved.name });
+
+  if (!client.options.integrationId) {
     throw new Error(
       'integration_id missing. Provide via --integration or "kapa config set integrationId <value>".',
     );
   }
 
   const streamPreference =
-    typeof options.stream === 'boolean' ? options.stream : resolved.values.stream;
+    typeof options.stream === 'boolean' ? options.stream : Boolean(client.options.stream);
   const metadata = parseMetadata(options.metadata);
   const temperatureInput =
-    options.temperature !== undefined
-      ? Number(options.temperature)
-      : resolved.values.temperature ?? undefined;
+    options.temperature !== undefined ? Number(options.temperature) : client.options.temperature;
   const finalTemperature =
     typeof temperatureInput === 'number' && Number.isFinite(temperatureInput)
       ? temperatureInput
@@ -237,7 +640,7 @@ async function handleAsk(promptParts: string[], options: AskOptions): Promise<As
   let threadId =
     options.thread ??
     (typeof resumeValue === 'string' && resumeValue !== 'last' ? resumeValue : undefined);
-  debugLog('handleAsk initial state', JSON.stringify({ threadId, streamPreference }));
+  log.debug('ask initial state', { threadId, streamPreference });
 
   if (!threadId && resumeValue === 'last') {
     threadId = await getLastThread(resolved.name) ?? undefined;
@@ -245,136 +648,713 @@ async function handleAsk(promptParts: string[], options: AskOptions): Promise<As
       throw new Error('No recent thread found to resume.');
     }
   }
-  if (!threadId && !projectId) {
+  if (!threadId && !client.options.projectId) {
     throw new Error(
       'Project id is required to start a new chat. Provide via --project or config.',
     );
   }
 
-  const spinner = ora('Waiting for Kapa');
+  // Follow-ups depend on the conversation so far, so only new-thread questions are cached.
+  const cacheEnabled = (options.cache ?? resolved.values.cache) && !threadId;
+  const cacheKey = cacheEnabled
+    ? buildCacheKey({
+        baseUrl: client.options.baseUrl,
+        projectId: client.options.projectId,
+        integrationId: client.options.integrationId,
+        prompt,
+        temperature: finalTemperature,
+        metadata: { ...client.options.metadata, ...metadata },
+        userIdentifier,
+      })
+    : undefined;
+  const cacheTtl = resolveDurationOption('--cache-ttl', options.cacheTtl) ?? resolved.values.cacheTtl;
+  const cached = cacheKey ? await readCachedAnswer(cacheKey) : null;
+  log.debug('ask cache', { cache: cacheKey ? (cached ? 'hit' : 'miss') : 'off' });
+
+  const spinner = ora('Waiting for Kapa');
+  const spinnerEnabled = !options.json && !options.quiet;
+  if (spinnerEnabled && !cached) spinner.start();
+
+  const onRetry = (info: RetryInfo) => {
+    const message =
+      `${info.reason}, retrying in ${(info.delayMs / 1000).toFixed(1)}s ` +
+      `(attempt ${info.attempt}/${info.maxAttempts})`;
+    log.info(`ask retry: ${message}`);
+    if (spinnerEnabled) {
+      spinner.text = `Waiting for Kapa – ${message}`;
+    } else if (!options.quiet) {
+      process.stderr.write(`${chalk.yellow('!')} ${message}\n`);
+    }
+  };
+
+  let streamedAnswer = '';
+  let streamedIds: { threadId?: string; questionAnswerId?: string } = {};
+  let headerShown = false;
+  let citationsShown = false;
+  const streamToTerminal = streamPreference && !options.json;
+  const showStreamHeader = () => {
+    if (headerShown) return;
+    if (spinnerEnabled) spinner.stop();
+    process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim('streaming…')}\n\n`);
+    headerShown = true;
+  };
+  const started = performance.now();
+  let firstTokenAt: number | undefined;
+  const measure = (fields: Omit<AskStats, 'durationMs' | 'ttftMs'>): AskStats => {
+    const durationMs = Math.round(performance.now() - started);
+    const ttftMs =
+      firstTokenAt !== undefined ? Math.round(firstTokenAt - started) : fields.streamed ? undefined : durationMs;
+    return { ttftMs, durationMs, ...fields };
+  };
+
+  const onStreamEvent = (event: KapaStreamEvent) => {
+    if (event.type === 'answer') {
+      firstTokenAt ??= performance.now();
+      streamedAnswer += event.text;
+    }
+    if (event.type === 'identifiers') streamedIds = { ...streamedIds, ...event };
+    if (!streamToTerminal) return;
+    switch (event.type) {
+      case 'answer':
+        showStreamHeader();
+        process.stdout.write(event.text);
+        return;
+      case 'sources': {
+        const citations = renderCitations(event.sources);
+        if (!citations) return;
+        showStreamHeader();
+        process.stdout.write(streamedAnswer ? `\n\n${citations}\n\n` : `${citations}\n\n`);
+        citationsShown = true;
+        return;
+      }
+      case 'error':
+        if (headerShown) process.stdout.write('\n');
+        return;
+      default:
+        log.trace('stream event', { type: event.type });
+    }
+  };
+
+  // Ctrl+C cancels only the in-flight request; the partial answer is kept below.
+  const controller = new AbortController();
+  const onSigint = () => controller.abort(new KapaCancelledError());
+  process.on('SIGINT', onSigint);
+
+  let response: KapaAnswer | undefined;
+  let interrupted = false;
+  try {
+    response = cached
+      ? { ...normalizeResponse(cached.data), streamed: false }
+      : await client.ask(prompt, {
+          threadId,
+          stream: streamPreference,
+          metadata,
+          userIdentifier,
+          temperature: finalTemperature,
+          signal: controller.signal,
+          onRetry,
+          onStreamEvent,
+        });
+  } catch (error) {
+    if (!(error instanceof KapaCancelledError)) {
+      if (headerShown) process.stdout.write('\n');
+      if (options.history !== false) {
+        // Failures carry no thread id so they never become the thread that --resume picks.
+        await appendHistory({
+          timestamp: timestamp(),
+          profile: resolved.name,
+          prompt,
+          response: streamedAnswer,
+          metadata,
+          stats: measure({
+            answerChars: streamedAnswer.length,
+            citations: 0,
+            streamed: Boolean(firstTokenAt),
+            errorClass: classifyAskError(error),
+          }),
+        });
+      }
+      throw error;
+    }
+    interrupted = true;
+  } finally {
+    process.off('SIGINT', onSigint);
+    if (spinnerEnabled) spinner.stop();
+  }
+  log.debug('ask response', { streamed: response?.streamed, interrupted });
+
+  const data = response?.raw ?? {};
+  const normalized = response ?? normalizeResponse(data);
+  const answer = streamedAnswer || normalized.answer || '';
+  threadId = normalized.threadId || streamedIds.threadId || threadId;
+  const questionAnswerId = normalized.questionAnswerId || streamedIds.questionAnswerId;
+
+  const usedStreaming = Boolean(streamPreference && response?.streamed);
+  const askStats = measure({
+    answerChars: answer.length,
+    citations: normalized.citations.length,
+    streamed: interrupted ? streamPreference : usedStreaming,
+    ...(cached ? { cached: true } : {}),
+    ...(interrupted ? { errorClass: 'cancelled' as const } : {}),
+  });
+  log.debug('ask normalized', { threadId, usedStreaming });
+
+  if (interrupted) {
+    if (headerShown) process.stdout.write('\n');
+    process.stderr.write(
+      `${chalk.yellow('!')} Request cancelled${answer ? ' – partial answer kept' : ''}.\n`,
+    );
+  } else if (options.json) {
+    process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+  } else if (!usedStreaming) {
+    const label = cached
+      ? `cached response, ${formatDuration(Date.now() - Date.parse(cached.createdAt))} old`
+      : 'response';
+    process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim(label)}\n\n`);
+    process.stdout.write(`${formatAnswerBlock(answer)}\n\n`);
+    const followUps = renderFollowUps(normalized.followUps);
+    if (followUps) {
+      process.stdout.write(`${followUps}\n\n`);
+    }
+    const citations = renderCitations(normalized.citations);
+    if (citations) {
+      process.stdout.write(`${citations}\n`);
+    }
+  } else {
+    if (!streamedAnswer && answer) {
+      process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim('response')}\n\n`);
+      process.stdout.write(`${formatAnswerBlock(answer)}\n`);
+    }
+    process.stdout.write('\n');
+    const followUps = renderFollowUps(normalized.followUps);
+    if (followUps) {
+      process.stdout.write(`\n${followUps}\n`);
+    }
+    const citations = citationsShown ? '' : renderCitations(normalized.citations);
+    if (citations) {
+      process.stdout.write(`\n${citations}\n`);
+    }
+  }
+
+  if (options.copy) {
+    await clipboard
+      .write(answer)
+      .then(() => process.stderr.write(`${chalk.green('✓')} Copied answer to clipboard.\n`))
+      .catch(() =>
+        process.stderr.write(`${chalk.yellow('!')} Could not access clipboard utility.\n`),
+      );
+  }
+
+  const targetFile = options.save ?? options.output;
+  if (targetFile) {
+    await fsWrite(targetFile, answer);
+    process.stderr.write(`${chalk.green('✓')} Saved answer to ${targetFile}\n`);
+  }
+
+  if (cacheKey && !cached && !interrupted && answer) {
+    await writeCachedAnswer({ key: cacheKey, profile: resolved.name, prompt, data }, cacheTtl);
+  }
+
+  if (options.history !== false) {
+    await appendHistory({
+      timestamp: timestamp(),
+      profile: resolved.name,
+      prompt,
+      response: answer,
+      threadId,
+      questionAnswerId,
+      metadata,
+      ...(interrupted ? { truncated: true } : {}),
+      stats: askStats,
+    });
+    log.debug('history written');
+  }
+
+  if (threadId) {
+    process.stderr.write(`${chalk.dim('Thread ID:')} ${threadId}\n`);
+  }
+  if (questionAnswerId) {
+    process.stderr.write(`${chalk.dim('Question Answer ID:')} ${questionAnswerId}\n`);
+  }
+
+  return { prompt, answer, threadId, questionAnswerId, interrupted };
+}
+
+async function handleSearch(queryParts: string[], options: SearchCommandOptions) {
+  const query = queryParts.join(' ').trim();
+  if (!query) {
+    throw new Error('No search query provided.');
+  }
+  const limit = options.limit ? Number.parseInt(options.limit, 10) : undefined;
+  if (limit !== undefined && (!Number.isFinite(limit) || limit < 1)) {
+    throw new Error('--limit must be a positive integer.');
+  }
+
+  const { client } = await resolveConnection(options);
+  if (!client.options.projectId) {
+    throw new Error('Project id is required to search. Provide via --project or config.');
+  }
+
+  const spinner = ora('Searching sources');
+  const spinnerEnabled = !options.json && !options.quiet;
+  if (spinnerEnabled) spinner.start();
+  const results = await client.search(query, { limit }).finally(() => {
+    if (spinnerEnabled) spinner.stop();
+  });
+
+  if (options.json) {
+    const serialisable = results.map(({ raw, ...rest }) => rest);
+    process.stdout.write(`${JSON.stringify(serialisable, null, 2)}\n`);
+    return;
+  }
+  if (!results.length) {
+    process.stdout.write(`${chalk.dim('No matching sources found.')}\n`);
+    return;
+  }
+  process.stdout.write(`${renderSearchResults(results)}\n`);
+}
+
+async function handleThread(action: string, id: string | undefined, options: ThreadCommandOptions) {
+  switch (action) {
+    case 'list': {
+      const threads = await listThreads(options.profile);
+      if (options.json) {
+        process.stdout.write(`${JSON.stringify(threads, null, 2)}\n`);
+        return;
+      }
+      if (!threads.length) {
+        process.stdout.write(`${chalk.dim('No threads in local history yet.')}\n`);
+        return;
+      }
+      for (const thread of threads) {
+        const turns = `${thread.turns} ${thread.turns === 1 ? 'turn' : 'turns'}`;
+        process.stdout.write(`${chalk.bold(thread.threadId)} ${chalk.dim(`[${thread.profile}]`)}\n`);
+        process.stdout.write(`  ${thread.title || chalk.dim('(empty prompt)')}\n`);
+        process.stdout.write(`  ${chalk.dim(`${turns} · last active ${thread.lastTimestamp}`)}\n\n`);
+      }
+      return;
+    }
+    case 'show': {
+      const { client, resolved } = await resolveConnection(options);
+      const threadId = id ?? (await getLastThread(resolved.name));
+      if (!threadId) {
+        throw new Error('No recent thread found. Pass a thread id.');
+      }
+
+      const spinner = ora('Fetching thread');
+      const spinnerEnabled = !options.json && !options.quiet;
+      if (spinnerEnabled) spinner.start();
+      const thread = await client.getThread(threadId).finally(() => {
+        if (spinnerEnabled) spinner.stop();
+      });
+
+      if (options.json) {
+        process.stdout.write(`${JSON.stringify(thread.raw, null, 2)}\n`);
+        return;
+      }
+      process.stdout.write(`${chalk.dim('Thread:')} ${thread.id ?? threadId}\n\n`);
+      if (!thread.turns.length) {
+        process.stdout.write(`${chalk.dim('This thread has no questions yet.')}\n`);
+        return;
+      }
+      thread.turns.forEach((turn, idx) => {
+        const when = turn.createdAt ? ` ${chalk.dim(turn.createdAt)}` : '';
+        process.stdout.write(`${chalk.bold(`#${idx + 1}`)}${when}\n`);
+        process.stdout.write(`${chalk.cyan('Prompt:')} ${turn.question}\n`);
+        process.stdout.write(`${chalk.green('Reply:')} ${formatAnswerBlock(turn.answer)}\n`);
+        const citations = renderCitations(turn.citations);
+        if (citations) {
+          process.stdout.write(`${citations}\n`);
+        }
+        if (turn.questionAnswerId) {
+          process.stdout.write(`${chalk.dim('Question Answer ID:')} ${turn.questionAnswerId}\n`);
+        }
+        process.stdout.write('\n');
+      });
+      return;
+    }
+    default:
+      throw new Error('Thread action must be one of show, list.');
+  }
+}
+
+async function handleFeedback(target: string, verdictInput: string, options: FeedbackCommandOptions) {
+  const verdict = parseVerdict(verdictInput);
+  const { client, resolved } = await resolveConnection(options);
+  const questionAnswerId =
+    target === 'last' ? await getLastQuestionAnswerId(resolved.name) : target;
+  if (!questionAnswerId) {
+    throw new Error('No recent answer found to rate. Pass a question-answer id instead of "last".');
+  }
+
+  await client.feedback(questionAnswerId, verdict === 'up' ? 'upvote' : 'downvote', {
+    comment: options.comment,
+    userIdentifier: options.user,
+  });
+  const recorded = await recordFeedback(questionAnswerId, {
+    verdict,
+    comment: options.comment,
+    timestamp: timestamp(),
+  });
+  log.debug('feedback recorded', { questionAnswerId, verdict, recorded });
+  process.stdout.write(
+    `${chalk.green('✓')} Sent ${verdict === 'up' ? 'upvote' : 'downvote'} for ${questionAnswerId}\n`,
+  );
+}
+
+async function handleCompare(promptParts: string[], options: CompareCommandOptions) {
+  const prompt = promptParts.join(' ').trim();
+  if (!prompt) {
+    throw new Error('No prompt provided.');
+  }
+  const profiles = [...new Set(options.profiles.split(',').map((name) => name.trim()).filter(Boolean))];
+  if (profiles.length < 2) {
+    throw new Error('--profiles needs at least two profile names, e.g. --profiles public,internal.');
+  }
+  if (!['auto', 'side', 'stacked'].includes(options.layout)) {
+    throw new Error('--layout must be one of auto, side, stacked.');
+  }
+  // Unknown profiles are a usage error rather than a per-column failure.
+  const config = await loadConfig();
+  profiles.forEach((name) => resolveProfile(config, name));
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort(new KapaCancelledError());
+  process.on('SIGINT', onSigint);
+  const spinner = ora(`Asking ${profiles.join(', ')}`);
+  const spinnerEnabled = !options.json && !options.quiet;
+  if (spinnerEnabled) spinner.start();
+
+  const results: CompareResult[] = await Promise.all(
+    profiles.map(async (profile) => {
+      const started = performance.now();
+      try {
+        // Each column is the stored profile as-is: KAPA_* env vars and `.kaparc` would otherwise
+        // point every column at the same project.
+        const client = await KapaClient.fromProfile({ profile, storedProfileOnly: true });
+        const answer = await client.ask(prompt, { stream: false, signal: controller.signal });
+        return {
+          profile,
+          answer: answer.answer,
+          citations: answer.citations,
+          threadId: answer.threadId,
+          questionAnswerId: answer.questionAnswerId,
+          latencyMs: Math.round(performance.now() - started),
+        };
+      } catch (error: any) {
+        return {
+          profile,
+          answer: '',
+          citations: [],
+          latencyMs: Math.round(performance.now() - started),
+          error: error?.message ?? String(error),
+        };
+      }
+    }),
+  ).finally(() => {
+    process.off('SIGINT', onSigint);
+    if (spinnerEnabled) spinner.stop();
+  });
+
+  const answered = results.filter((result) => !result.error);
+  const diffs =
+    options.diff === false
+      ? []
+      : answered.slice(1).map((result) => ({
+          from: answered[0].profile,
+          to: result.profile,
+          segments: diffWords(answered[0].answer, result.answer),
+        }));
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ prompt, results, diffs }, null, 2)}\n`);
+  } else {
+    const columns = stdoutStream.columns || 100;
+    const layout =
+      options.layout === 'auto' ? chooseLayout(columns, results.length) : (options.layout as CompareLayout);
+    process.stdout.write(`${renderComparison(results, layout, columns)}\n`);
+    for (const diff of diffs) {
+      process.stdout.write(`\n${chalk.bold(`Diff ${diff.from} → ${diff.to}`)}\n`);
+      const identical = diff.segments.every((segment) => segment.type === 'same');
+      process.stdout.write(identical ? `${chalk.dim('Answers are identical.')}\n` : `${renderWordDiff(diff.segments)}\n`);
+    }
+  }
+
+  if (controller.signal.aborted) {
+    process.exitCode = 130;
+  } else if (answered.length < results.length) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleBatch(file: string, options: BatchCommandOptions) {
+  const concurrency = Number.parseInt(options.concurrency, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer.');
+  }
+  const ratePerMinute = options.rate !== undefined ? Number(options.rate) : undefined;
+  if (ratePerMinute !== undefined && !(ratePerMinute > 0)) {
+    throw new Error('--rate must be a positive number of requests per minute.');
+  }
+
+  const content = await readFile(file, 'utf8').catch((error: any) => {
+    throw new Error(`Unable to read ${file}: ${error?.message ?? error}`);
+  });
+  const items = parseBatchInput(content, detectBatchFormat(file));
+  if (!items.length) {
+    throw new Error(`${file} contains no questions.`);
+  }
+
+  const outputFile = options.output ?? `${file.replace(/\.(jsonl|ndjson|json|txt)$/i, '')}.results.jsonl`;
+  const outputExists = await stat(outputFile).then(
+    (info) => info.size > 0,
+    () => false,
+  );
+  if (outputExists && !options.resume && !options.force) {
+    throw new Error(`${outputFile} already exists. Pass --resume to continue it or --force to overwrite.`);
+  }
+  const completed = await prepareBatchOutput(outputFile, Boolean(options.resume));
+  const pending = items.filter((item) => !completed.has(item.id));
+  if (!pending.length) {
+    process.stdout.write(`${chalk.green('✓')} All ${items.length} questions already answered in ${outputFile}\n`);
+    return;
+  }
+
+  // One client per profile; rows may target different projects.
+  const clients = new Map<string, Promise<KapaClient>>();
+  const clientFor = (profile?: string) => {
+    const key = profile ?? options.profile ?? '';
+    if (!clients.has(key)) {
+      clients.set(
+        key,
+        resolveConnection({ ...options, profile: profile ?? options.profile }).then(({ client }) => client),
+      );
+    }
+    return clients.get(key)!;
+  };
+  // Fail fast on missing credentials instead of reporting the same error on every row.
+  await clientFor();
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort(new KapaCancelledError());
+  process.on('SIGINT', onSigint);
+
+  const spinner = ora();
+  const spinnerEnabled = !options.quiet;
+  const skipped = items.length - pending.length;
+  const describe = (done: number, failed: number, inFlight: number) =>
+    `Batch ${done + skipped}/${items.length}` +
+    (failed ? ` · ${chalk.red(`${failed} failed`)}` : '') +
+    (inFlight ? chalk.dim(` · ${inFlight} in flight`) : '');
+  if (spinnerEnabled) spinner.start(describe(0, 0, 0));
+
+  let writes = Promise.resolve();
+  const started = performance.now();
+  const progress = await runBatch(pending, {
+    concurrency,
+    ratePerMinute,
+    signal: controller.signal,
+    ask: async (item, signal) => {
+      const client = await clientFor(item.profile);
+      return client.ask(item.prompt, {
+        threadId: item.threadId,
+        metadata: item.metadata,
+        stream: false,
+        signal,
+      });
+    },
+    onResult: (result) => {
+      writes = writes.then(() => appendFile(outputFile, `${JSON.stringify(result)}\n`));
+      return writes;
+    },
+    onProgress: ({ completed: done, failed, inFlight }) => {
+      if (spinnerEnabled) spinner.text = describe(done, failed, inFlight);
+    },
+  }).finally(() => {
+    process.off('SIGINT', onSigint);
+    if (spinnerEnabled) spinner.stop();
+  });
+  await writes;
+
+  const elapsed = formatDuration(Math.round(performance.now() - started));
+  const summary =
+    `${progress.completed - progress.failed} answered, ${progress.failed} failed` +
+    (skipped ? `, ${skipped} skipped` : '') +
+    ` in ${elapsed} → ${outputFile}`;
+  if (controller.signal.aborted) {
+    process.stderr.write(
+      `${chalk.yellow('!')} Batch interrupted: ${summary}. Re-run with --resume to finish.\n`,
+    );
+    process.exitCode = 130;
+    return;
+  }
+  process.stdout.write(`${progress.failed ? chalk.yellow('!') : chalk.green('✓')} ${summary}\n`);
+  if (progress.failed) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleEval(suiteFile: string, options: EvalCommandOptions) {
+  const concurrency = Number.parseInt(options.concurrency, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer.');
+  }
+  const content = await readFile(suiteFile, 'utf8').catch((error: any) => {
+    throw new Error(`Unable to read ${suiteFile}: ${error?.message ?? error}`);
+  });
+  const suite = parseEvalSuite(
+    content,
+    detectSuiteFormat(suiteFile),
+    path.basename(suiteFile, path.extname(suiteFile)),
+  );
+  const baselineFile =
+    options.baseline ?? `${suiteFile.replace(/\.(ya?ml|json)$/i, '')}.baseline.json`;
+  const baseline = await readFile(baselineFile, 'utf8').then(
+    (raw) => JSON.parse(raw) as EvalRun,
+    (error: any) => {
+      if (error?.code === 'ENOENT') return undefined;
+      throw new Error(`Unable to read baseline ${baselineFile}: ${error?.message ?? error}`);
+    },
+  );
+
+  const { client } = await resolveConnection(options);
+  const spinner = ora(`Evaluating ${suite.name} (0/${suite.cases.length})`);
   const spinnerEnabled = !options.json && !options.quiet;
   if (spinnerEnabled) spinner.start();
-
-  let streamedAnswer = '';
-  let headerShown = false;
-  const onStreamEvent = (event: { text?: string }) => {
-    if (!streamPreference || !event.text) return;
-    if (!headerShown) {
-      if (spinnerEnabled) spinner.stop();
-      process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim('streaming…')}\n\n`);
-      headerShown = true;
-    }
-    streamedAnswer += event.text;
-    process.stdout.write(event.text);
-  };
-
-  const response = await sendChat({
-    apiKey,
-    projectId,
-    integrationId,
-    prompt,
-    metadata,
-    userIdentifier,
-    temperature: finalTemperature,
-    baseUrl,
-    threadId,
-    stream: streamPreference,
-    onStreamEvent,
+  let done = 0;
+  const run = await runEvalSuite(suite, {
+    concurrency,
+    ask: (item, signal) =>
+      client.ask(item.prompt, { threadId: item.threadId, metadata: item.metadata, stream: false, signal }),
+    onResult: () => {
+      done += 1;
+      if (spinnerEnabled) spinner.text = `Evaluating ${suite.name} (${done}/${suite.cases.length})`;
+    },
   }).finally(() => {
     if (spinnerEnabled) spinner.stop();
   });
-  debugLog('handleAsk response', JSON.stringify({ streamed: response.streamed }));
-
-  const normalized = normalizeResponse(response.data ?? {});
-  const answer = streamedAnswer || normalized.answer || '';
-  threadId = normalized.threadId || response.data?.thread_id || threadId;
-  const questionAnswerId = normalized.questionAnswerId;
+  const diff = baseline ? diffEvalRuns(baseline, run) : undefined;
 
-  const usedStreaming = Boolean(streamPreference && response.streamed);
-  debugLog('handleAsk normalized', JSON.stringify({ threadId, usedStreaming }));
+  if (options.junit) {
+    await fsWrite(options.junit, renderJUnit(run, diff));
+  }
+  // A first run only becomes the baseline once it passes, or when asked to record failures.
+  const saveBaseline = options.updateBaseline || (!baseline && run.failed === 0);
+  if (saveBaseline) {
+    await fsWrite(baselineFile, `${JSON.stringify(run, null, 2)}\n`);
+  }
 
   if (options.json) {
-    process.stdout.write(`${JSON.stringify(response.data, null, 2)}\n`);
-  } else if (!usedStreaming) {
-    process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim('response')}\n\n`);
-    process.stdout.write(`${formatAnswerBlock(answer)}\n\n`);
-    const followUps = renderFollowUps(normalized.followUps);
-    if (followUps) {
-      process.stdout.write(`${followUps}\n\n`);
-    }
-    const citations = renderCitations(normalized.citations);
-    if (citations) {
-      process.stdout.write(`${citations}\n`);
-    }
+    process.stdout.write(`${JSON.stringify({ run, diff: diff ?? null }, null, 2)}\n`);
   } else {
-    if (!streamedAnswer && answer) {
-      process.stdout.write(`${chalk.bold('Kapa')} ${chalk.dim('response')}\n\n`);
-      process.stdout.write(`${formatAnswerBlock(answer)}\n`);
+    for (const result of run.results) {
+      const mark = result.passed ? chalk.green('✓') : chalk.red('✗');
+      process.stdout.write(`${mark} ${result.id} ${chalk.dim(`(${formatDuration(result.latencyMs)})`)}\n`);
+      for (const assertion of result.assertions.filter((item) => !item.passed)) {
+        process.stdout.write(`    ${chalk.red(assertion.name)} ${chalk.dim(assertion.message)}\n`);
+      }
     }
-    process.stdout.write('\n');
-    const followUps = renderFollowUps(normalized.followUps);
-    if (followUps) {
-      process.stdout.write(`\n${followUps}\n`);
+    process.stdout.write(`\n${run.passed}/${run.results.length} passed\n`);
+    if (diff) {
+      for (const regression of diff.regressions) {
+        process.stdout.write(`${chalk.red('Regression:')} ${regression.id} – ${regression.message}\n`);
+      }
+      if (diff.fixed.length) process.stdout.write(`${chalk.green('Fixed:')} ${diff.fixed.join(', ')}\n`);
+      if (diff.added.length) process.stdout.write(`${chalk.dim(`New cases: ${diff.added.join(', ')}`)}\n`);
+      if (diff.removed.length) process.stdout.write(`${chalk.dim(`Removed cases: ${diff.removed.join(', ')}`)}\n`);
     }
-    const citations = renderCitations(normalized.citations);
-    if (citations) {
-      process.stdout.write(`\n${citations}\n`);
+    if (saveBaseline) {
+      process.stdout.write(`${chalk.dim(`Baseline saved to ${baselineFile}`)}\n`);
+    } else if (!baseline) {
+      process.stdout.write(
+        `${chalk.dim('No baseline saved while cases fail; pass --update-baseline to record this run.')}\n`,
+      );
     }
   }
 
-  if (options.copy) {
-    await clipboard
-      .write(answer)
-      .then(() => process.stderr.write(`${chalk.green('✓')} Copied answer to clipboard.\n`))
-      .catch(() =>
-        process.stderr.write(`${chalk.yellow('!')} Could not access clipboard utility.\n`),
-      );
+  // Without a baseline every failure counts; with one, only changes for the worse do.
+  if (diff ? diff.regressions.length > 0 : run.failed > 0) {
+    process.exitCode = 1;
   }
+}
 
-  const targetFile = options.save ?? options.output;
-  if (targetFile) {
-    await fsWrite(targetFile, answer);
-    process.stderr.write(`${chalk.green('✓')} Saved answer to ${targetFile}\n`);
+async function handleMockServer(options: MockServerCommandOptions) {
+  const port = Number.parseInt(options.port, 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error('--port must be a number between 0 and 65535.');
   }
+  const scripted = options.script ? await readMockScript(options.script) : {};
+  const server = await startMockServer({
+    ...scripted,
+    port,
+    host: options.host,
+    apiKey: options.apiKey ?? scripted.apiKey,
+    latencyMs: options.latency
+      ? resolveDurationOption('--latency', options.latency)
+      : scripted.latencyMs,
+    chunkDelayMs:
+      resolveDurationOption('--chunk-delay', options.chunkDelay) ??
+      scripted.chunkDelayMs ??
+      DEFAULT_CHUNK_DELAY_MS,
+  });
 
-  if (options.history !== false) {
-    await appendHistory({
-      timestamp: timestamp(),
-      profile: resolved.name,
-      prompt,
-      response: answer,
-      threadId,
-      questionAnswerId,
-      metadata,
-    });
-    debugLog('history written');
-  }
+  process.stdout.write(`${chalk.green('✓')} Mock Kapa API listening on ${chalk.bold(server.url)}\n`);
+  process.stdout.write(
+    `${chalk.dim(`Try: kapa --base-url ${server.url} -k mock --project demo --integration demo "hello"`)}\n`,
+  );
+  process.stdout.write(`${chalk.dim('Press Ctrl+C to stop.')}\n`);
 
-  if (threadId) {
-    process.stderr.write(`${chalk.dim('Thread ID:')} ${threadId}\n`);
-  }
-  if (questionAnswerId) {
-    process.stderr.write(`${chalk.dim('Question Answer ID:')} ${questionAnswerId}\n`);
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+  await server.close();
+  process.stdout.write(`${chalk.dim(`Served ${server.requests.length} request(s).`)}\n`);
+}
+
+async function readMockScript(file: string): Promise<MockServerOptions> {
+  const raw = await readFile(file, 'utf8').catch((error: any) => {
+    throw new Error(`Unable to read mock script ${file}: ${error?.message ?? error}`);
+  });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Mock script ${file} is not valid JSON: ${error?.message ?? error}`);
   }
+  if (Array.isArray(parsed)) return { script: parsed };
+  if (parsed && typeof parsed === 'object') return parsed as MockServerOptions;
+  throw new Error(`Mock script ${file} must contain an array of replies or an options object.`);
+}
 
-  return { prompt, answer, threadId, questionAnswerId };
+function parseVerdict(value: string): 'up' | 'down' {
+  const clean = value.toLowerCase();
+  if (['up', 'good', 'upvote', '+'].includes(clean)) return 'up';
+  if (['down', 'bad', 'downvote', '-'].includes(clean)) return 'down';
+  throw new Error('Verdict must be "up" or "down".');
 }
 
-async function handleConfig(action: string, key?: string, value?: string, profile?: string) {
+async function handleConfig(
+  action: string,
+  args: Array<string | undefined>,
+  options: ConfigCommandOptions,
+) {
+  const [key, value] = args;
+  const profile = options.profile;
   switch (action) {
     case 'list': {
+      if (options.resolved) {
+        await printConfigResolution(profile);
+        return;
+      }
       const info = await listProfiles();
       for (const [name, profileConfig] of Object.entries(info.profiles)) {
-        const summary = summarizeProfile(profileConfig as any);
-        const header =
-          name === info.defaultProfile ? `${chalk.bold(name)} ${chalk.dim('(default)')}` : chalk.bold(name);
-        process.stdout.write(`${header}\n`);
-        for (const [field, fieldValue] of Object.entries(summary)) {
-          process.stdout.write(
-            `  ${chalk.dim(field.padEnd(14))}${fieldValue ?? chalk.dim('(unset)')}\n`,
-          );
-        }
-        process.stdout.write('\n');
+        printProfileSummary(name, profileConfig, name === info.defaultProfile);
       }
       return;
     }
@@ -391,7 +1371,17 @@ async function handleConfig(action: string, key?: string, value?: string, profil
       const result = await setConfigValue(key, value, { profile });
       const scope = result.profile ? ` (${result.profile})` : '';
       process.stdout.write(
-        `${chalk.green('✓')} Saved ${result.key}${scope}: ${String(result.value)}\n`,
+        `${chalk.green('✓')} Saved ${result.key}${scope}: ${formatConfigValue(result.value)}\n`,
+      );
+      return;
+    }
+    case 'unset': {
+      if (!key) throw new Error('Usage: kapa config unset <key>');
+      const result = await unsetConfigValue(key, { profile });
+      process.stdout.write(
+        result.removed
+          ? `${chalk.green('✓')} Removed ${result.key} (${result.profile})\n`
+          : `${chalk.dim(`${result.key} is not set in ${result.profile}`)}\n`,
       );
       return;
     }
@@ -403,7 +1393,7 @@ async function handleConfig(action: string, key?: string, value?: string, profil
         process.stdout.write(`${cfg.defaultProfile}\n`);
         return;
       }
-      const resolved = resolveProfile(cfg, profile ?? cfg.defaultProfile);
+      const resolved = resolveProfile(cfg, profile);
       const valueToShow = resolved.values[normalized as keyof typeof resolved.values];
       if (valueToShow === undefined || valueToShow === null || valueToShow === '') {
         process.stdout.write(`${chalk.dim('undefined')}\n`);
@@ -414,46 +1404,443 @@ async function handleConfig(action: string, key?: string, value?: string, profil
       }
       return;
     }
-    case 'profile': {
-      const subAction = key;
-      const target = value;
-      if (!subAction || !target) {
-        throw new Error('Usage: kapa config profile <use|create|delete> <name>');
-      }
-      if (subAction === 'use') {
-        await setConfigValue('defaultProfile', target);
-        process.stdout.write(`${chalk.green('✓')} Default profile set to ${target}\n`);
+    case 'profile':
+      await handleConfigProfile(args, options);
+      return;
+    case 'export':
+      await handleConfigExport(options);
+      return;
+    case 'import': {
+      if (!key) throw new Error('Usage: kapa config import <file> [--merge|--replace]');
+      await handleConfigImport(key, options);
+      return;
+    }
+    default:
+      throw new Error(`Unknown config action "${action}".`);
+  }
+}
+
+async function handleConfigProfile(args: Array<string | undefined>, options: ConfigCommandOptions) {
+  const [subAction, target, newName] = args;
+  if (subAction === 'show') {
+    const info = await listProfiles();
+    const name = target ?? info.defaultProfile;
+    const profileConfig = info.profiles[name];
+    if (!profileConfig) {
+      throw new Error(`Profile "${name}" does not exist.`);
+    }
+    if (options.json) {
+      const summary = { name, default: name === info.defaultProfile, values: summarizeProfile(profileConfig) };
+      process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+      return;
+    }
+    printProfileSummary(name, profileConfig, name === info.defaultProfile);
+    return;
+  }
+  if (!subAction || !target) {
+    throw new Error('Usage: kapa config profile <use|create|delete|show> <name> or <rename|copy> <from> <to>');
+  }
+  if (subAction === 'use') {
+    await setConfigValue('defaultProfile', target);
+    process.stdout.write(`${chalk.green('✓')} Default profile set to ${target}\n`);
+    return;
+  }
+  if (subAction === 'create') {
+    await createProfile(target);
+    process.stdout.write(`${chalk.green('✓')} Created profile ${target}\n`);
+    return;
+  }
+  if (subAction === 'delete') {
+    await deleteProfile(target);
+    process.stdout.write(`${chalk.green('✓')} Deleted profile ${target}\n`);
+    return;
+  }
+  if (subAction === 'rename' || subAction === 'copy') {
+    if (!newName) {
+      throw new Error(`Usage: kapa config profile ${subAction} <from> <to>`);
+    }
+    if (subAction === 'copy') {
+      await copyProfile(target, newName);
+      process.stdout.write(`${chalk.green('✓')} Copied profile ${target} to ${newName}\n`);
+      return;
+    }
+    const result = await renameProfile(target, newName);
+    const note = result.wasDefault ? ' (still the default profile)' : '';
+    process.stdout.write(`${chalk.green('✓')} Renamed profile ${target} to ${newName}${note}\n`);
+    const project = await findProjectConfig();
+    if (project?.profile === target) {
+      process.stderr.write(
+        `${chalk.yellow('Warning:')} ${project.path} still selects profile "${target}"; update it by hand.\n`,
+      );
+    }
+    return;
+  }
+  throw new Error('Profile action must be one of use, create, delete, rename, copy, show.');
+}
+
+function printProfileSummary(name: string, profileConfig: ProfileConfig, isDefault: boolean) {
+  const summary = summarizeProfile(profileConfig);
+  const header = isDefault ? `${chalk.bold(name)} ${chalk.dim('(default)')}` : chalk.bold(name);
+  process.stdout.write(`${header}\n`);
+  for (const [field, fieldValue] of Object.entries(summary)) {
+    process.stdout.write(`  ${chalk.dim(field.padEnd(22))}${fieldValue ?? chalk.dim('(unset)')}\n`);
+  }
+  process.stdout.write('\n');
+}
+
+async function handleConfigExport(options: ConfigCommandOptions) {
+  const passphrase = options.includeSecrets ? await readExportPassphrase(true) : undefined;
+  const bundle = await exportProfiles({ profile: options.profile, passphrase });
+  const serialized = `${JSON.stringify(bundle, null, 2)}\n`;
+  const count = Object.keys(bundle.profiles).length;
+  const summary = `Exported ${count} profile${count === 1 ? '' : 's'}${bundle.sealed ? ' (secrets sealed)' : ''}`;
+  if (!options.output) {
+    process.stdout.write(serialized);
+    process.stderr.write(`${chalk.dim(summary)}\n`);
+    return;
+  }
+  await writeFile(options.output, serialized, { encoding: 'utf8', mode: 0o600 });
+  process.stdout.write(`${chalk.green('✓')} ${summary} to ${options.output}\n`);
+}
+
+async function handleConfigImport(file: string, options: ConfigCommandOptions) {
+  if (options.merge && options.replace) {
+    throw new Error('Use either --merge or --replace, not both.');
+  }
+  const bundle = parseConfigBundle(await readFile(file, 'utf8'), file);
+  const passphrase = bundle.sealed ? await readExportPassphrase(false) : undefined;
+  const plan = await planConfigImport(bundle, {
+    mode: options.replace ? 'replace' : 'merge',
+    passphrase,
+  });
+  process.stdout.write(`${renderImportPlan(plan)}\n`);
+
+  if (plan.profiles.every((profile) => profile.action === 'unchanged')) {
+    process.stdout.write(`${chalk.dim('Nothing to import.')}\n`);
+    return;
+  }
+  if (options.dryRun) {
+    process.stdout.write(`${chalk.dim('Dry run: nothing was written.')}\n`);
+    return;
+  }
+  if ((plan.conflicts || plan.trustedChanges) && !options.yes) {
+    const reasons = [
+      ...(plan.conflicts ? [`overwrite ${plan.conflicts} local value(s)`] : []),
+      ...(plan.trustedChanges
+        ? [`set ${plan.trustedChanges} helper command or connection setting(s)`]
+        : []),
+    ].join(' and ');
+    if (!stdinStream.isTTY) {
+      throw new Error(
+        `This import would ${reasons}. Review them with --dry-run and re-run with --yes to apply.`,
+      );
+    }
+    const answer = await promptTerminal(`Import and ${reasons}? [y/N] `);
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      process.stdout.write(`${chalk.dim('Import cancelled.')}\n`);
+      return;
+    }
+  }
+  await applyConfigImport(plan);
+  const written = plan.profiles.filter((profile) => profile.action !== 'unchanged').length;
+  process.stdout.write(`${chalk.green('✓')} Imported ${written} profile${written === 1 ? '' : 's'}\n`);
+}
+
+/** KAPA_EXPORT_PASSPHRASE, or a hidden prompt (asked twice when sealing a new export). */
+async function readExportPassphrase(confirm: boolean) {
+  const fromEnv = process.env.KAPA_EXPORT_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+  const passphrase = await promptTerminal('Export passphrase: ', { hidden: true });
+  if (!passphrase) throw new Error('The export passphrase cannot be empty.');
+  if (confirm && (await promptTerminal('Repeat passphrase: ', { hidden: true })) !== passphrase) {
+    throw new Error('Passphrases do not match.');
+  }
+  return passphrase;
+}
+
+function renderImportPlan(plan: ConfigImportPlan) {
+  const lines: string[] = [];
+  for (const profile of plan.profiles) {
+    const label =
+      profile.action === 'create'
+        ? chalk.green('new')
+        : profile.action === 'update'
+          ? chalk.yellow('update')
+          : chalk.dim('unchanged');
+    lines.push(`${chalk.bold(profile.profile)} ${label}`);
+    for (const change of profile.changes) {
+      const from = change.from === undefined ? '' : `${formatConfigValue(change.from)} → `;
+      const to = change.to === undefined ? chalk.dim('(removed)') : formatConfigValue(change.to);
+      const marker = change.trusted ? chalk.red('!') : change.conflict ? chalk.yellow('~') : chalk.green('+');
+      lines.push(`  ${marker} ${change.key.padEnd(22)}${from}${to}`);
+    }
+  }
+  if (plan.conflicts || plan.trustedChanges) lines.push('');
+  if (plan.conflicts) {
+    lines.push(chalk.yellow(`${plan.conflicts} existing value(s) would be overwritten (${plan.mode}).`));
+  }
+  if (plan.trustedChanges) {
+    lines.push(
+      chalk.red(
+        `${plan.trustedChanges} value(s) marked ! control which commands run, which files are read ` +
+          'or where your API key is sent. Only apply them if you trust this file.',
+      ),
+    );
+  }
+  return lines.join('\n');
+}
+
+async function printConfigResolution(profile?: string) {
+  const resolution = await describeConfigResolution({ profile });
+  const describeSource = (source: ValueSource, origin?: string) => {
+    if (source === 'env') return `env ${origin}`;
+    if (source === 'kaparc') return `.kaparc ${origin}`;
+    if (source === 'config') return origin ? `profile ${origin}` : 'config';
+    return source;
+  };
+  process.stdout.write(
+    `${chalk.bold(resolution.profile)} ${chalk.dim(`(${describeSource(resolution.profileSource, resolution.profileOrigin)})`)}\n`,
+  );
+  const width = Math.max(...resolution.values.map((entry) => formatConfigValue(entry.value).length));
+  for (const entry of resolution.values) {
+    const shown = formatConfigValue(entry.value);
+    const label = entry.source === 'default' ? chalk.dim('default') : describeSource(entry.source, entry.origin);
+    process.stdout.write(`  ${chalk.dim(entry.key.padEnd(22))}${shown.padEnd(width)}  ${label}\n`);
+  }
+  process.stdout.write(
+    `\n${chalk.dim('Precedence: flags > env vars > .kaparc > config profile > defaults.')}\n`,
+  );
+}
+
+function formatConfigValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '(unset)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+async function handleCache(action: string, jsonOutput?: boolean) {
+  switch (action) {
+    case 'stats': {
+      const stats = await getCacheStats();
+      if (jsonOutput) {
+        process.stdout.write(`${JSON.stringify(stats, null, 2)}\n`);
         return;
       }
-      if (subAction === 'create') {
-        await createProfile(target);
-        process.stdout.write(`${chalk.green('✓')} Created profile ${target}\n`);
+      const rows: Array<[string, string | number]> = [
+        ['path', stats.path],
+        ['entries', stats.entries],
+        ['expired', stats.expired],
+        ['unreadable', stats.unreadable],
+        ['size', `${(stats.bytes / 1024).toFixed(1)} KiB`],
+        ['oldest', stats.oldest ?? '-'],
+        ['newest', stats.newest ?? '-'],
+      ];
+      for (const [field, value] of rows) {
+        process.stdout.write(`${chalk.dim(field.padEnd(12))}${value}\n`);
+      }
+      return;
+    }
+    case 'list': {
+      const entries = await listCachedAnswers();
+      if (jsonOutput) {
+        process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
         return;
       }
-      if (subAction === 'delete') {
-        await deleteProfile(target);
-        process.stdout.write(`${chalk.green('✓')} Deleted profile ${target}\n`);
+      if (!entries.length) {
+        process.stdout.write(`${chalk.dim('The answer cache is empty.')}\n`);
         return;
       }
-      throw new Error('Profile action must be one of use, create, delete.');
+      for (const entry of entries) {
+        const state = entry.expired
+          ? chalk.yellow('expired')
+          : chalk.dim(`expires ${entry.expiresAt}`);
+        process.stdout.write(
+          `${chalk.bold(entry.key.slice(0, 12))} ${chalk.dim(entry.profile ?? '?')} ${state}\n`,
+        );
+        const prompt = entry.readable ? entry.prompt : chalk.dim('(encrypted with a different key)');
+        process.stdout.write(`  ${prompt}\n`);
+      }
+      return;
+    }
+    case 'prune': {
+      const removed = await pruneCache();
+      process.stdout.write(`${chalk.green('✓')} Removed ${removed} expired cache entr${removed === 1 ? 'y' : 'ies'}\n`);
+      return;
+    }
+    case 'clear': {
+      const removed = await clearCache();
+      process.stdout.write(
+        `${chalk.green('✓')} Cleared ${removed} cached answer${removed === 1 ? '' : 's'} (${getCachePath()})\n`,
+      );
+      return;
     }
     default:
-      throw new Error(`Unknown config action "${action}".`);
+      throw new Error('Unknown cache action. Use stats, list, prune or clear.');
+  }
+}
+
+async function handleVault(action: string, options: VaultCommandOptions) {
+  if (action === 'status') {
+    const status = await getVaultStatus();
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(status, null, 2)}\n`);
+      return;
+    }
+    for (const scope of status.scopes) {
+      const key = scope.keyEnv ? `key from ${scope.keyEnv}` : chalk.yellow('no key set');
+      const undecryptable = `${scope.undecryptable} undecryptable`;
+      const counts = [
+        `${scope.encrypted} encrypted`,
+        ...(scope.legacy ? [chalk.yellow(`${scope.legacy} in enc:v1 format`)] : []),
+        `${scope.plaintext} plaintext`,
+        scope.undecryptable ? chalk.red(undecryptable) : undecryptable,
+      ].join(', ');
+      process.stdout.write(`${chalk.bold(scope.scope.padEnd(8))}${counts} ${chalk.dim(`(${key}, ${scope.path})`)}\n`);
+    }
+    process.stdout.write(
+      `${chalk.bold('cache'.padEnd(8))}${status.cache.entries} entries, ${status.cache.unreadable} undecryptable\n`,
+    );
+    if (status.scopes.some((scope) => scope.legacy)) {
+      process.stdout.write(`${chalk.dim('Run "kapa vault migrate" to upgrade enc:v1 values.')}\n`);
+    }
+    if (status.interrupted) {
+      process.stdout.write(
+        `${chalk.yellow('!')} A key rotation or migration was interrupted part-way. ` +
+          'Run "kapa history repair" (or the same vault command again) to finish it.\n',
+      );
+    }
+    return;
+  }
+  if (action !== 'rotate' && action !== 'migrate') {
+    throw new Error('Unknown vault action. Use status, rotate or migrate.');
+  }
+
+  if (!['config', 'history', 'all'].includes(options.scope)) {
+    throw new Error('--scope must be one of config, history, all.');
+  }
+  const scopes: SecureScope[] = options.scope === 'all' ? ['config', 'history'] : [options.scope as SecureScope];
+  if (action === 'migrate') {
+    await handleVaultMigrate(scopes, options);
+    return;
+  }
+  const oldKey = await readVaultKey(options.oldKeyEnv, 'Current key: ');
+  const newKey = await readVaultKey(options.newKeyEnv, 'New key: ', 'Repeat new key: ');
+  const result = await rotateVault({ oldKey, newKey, scopes, dryRun: options.dryRun });
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
   }
+  for (const scope of result.scopes) {
+    const details = [
+      `${scope.rotated} re-encrypted`,
+      ...(scope.alreadyRotated ? [`${scope.alreadyRotated} already on the new key`] : []),
+      ...(scope.plaintext ? [`${scope.plaintext} plaintext left as is`] : []),
+    ].join(', ');
+    process.stdout.write(`${chalk.bold(scope.scope.padEnd(8))}${details}\n`);
+  }
+  if (result.dryRun) {
+    process.stdout.write(`${chalk.dim('Dry run: every value decrypts; nothing was written.')}\n`);
+    return;
+  }
+  if (result.cacheCleared) {
+    process.stdout.write(`${chalk.bold('cache'.padEnd(8))}${result.cacheCleared} entries cleared\n`);
+  }
+  if (!result.scopes.some((scope) => scope.rotated)) {
+    process.stdout.write(`${chalk.dim('Nothing left to rotate.')}\n`);
+    return;
+  }
+  const envNames = [...new Set(scopes.map((scope) => getScopeKeyName(scope) ?? 'KAPA_VAULT_KEY'))];
+  process.stdout.write(
+    `${chalk.green('✓')} Key rotated. Set ${envNames.join(' and ')} to the new key before the next run.\n`,
+  );
+}
+
+async function handleVaultMigrate(scopes: SecureScope[], options: VaultCommandOptions) {
+  const result = await migrateVault({ scopes, dryRun: options.dryRun });
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+  for (const scope of result.scopes) {
+    const undecryptable = `${scope.undecryptable} undecryptable left as is`;
+    const details = [
+      `${scope.migrated} ${result.dryRun ? 'to upgrade' : 'upgraded'}`,
+      ...(scope.current ? [`${scope.current} already enc:v2`] : []),
+      ...(scope.plaintext ? [`${scope.plaintext} plaintext left as is`] : []),
+      ...(scope.undecryptable ? [chalk.yellow(undecryptable)] : []),
+    ].join(', ');
+    process.stdout.write(`${chalk.bold(scope.scope.padEnd(8))}${details}\n`);
+  }
+  if (result.dryRun) {
+    process.stdout.write(`${chalk.dim('Dry run: nothing was written.')}\n`);
+  }
+}
+
+async function readVaultKey(envName: string | undefined, question: string, repeat?: string) {
+  if (envName) {
+    const value = process.env[envName];
+    if (!value) throw new Error(`${envName} is not set.`);
+    return value;
+  }
+  const value = await promptTerminal(question, { hidden: true });
+  if (repeat && (await promptTerminal(repeat, { hidden: true })) !== value) {
+    throw new Error('Keys do not match.');
+  }
+  return value;
+}
+
+async function handleDoctor(options: DoctorCommandOptions) {
+  const report = await runDoctor({
+    profile: options.profile,
+    timeoutMs: resolveDurationOption('--timeout', options.timeout),
+  });
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${renderDoctorReport(report)}\n`);
+  }
+  if (!report.ok) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleStats(options: StatsCommandOptions) {
+  let since: Date | undefined;
+  if (options.since !== undefined) {
+    const windowMs = parseDuration(options.since, 'd');
+    if (windowMs === null) {
+      throw new Error('--since expects a duration such as 30d, 12h or 90m.');
+    }
+    since = new Date(Date.now() - windowMs);
+  }
+  const report = summarizeUsage(await readHistory(Number.POSITIVE_INFINITY), {
+    since,
+    profile: options.profile,
+  });
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return;
+  }
+  process.stdout.write(`${renderUsageReport(report)}\n`);
 }
 
-async function handleHistory(limitOrAction?: string, jsonOutput?: boolean) {
+async function handleHistory(limitOrAction: string | undefined, options: HistoryCommandOptions) {
   const status = getHistoryStatus();
   if (limitOrAction === 'clear') {
     await clearHistory();
     process.stdout.write(`${chalk.green('✓')} Cleared history (${getHistoryPath()})\n`);
     return;
   }
+  if (limitOrAction === 'repair') {
+    await handleHistoryRepair(options);
+    return;
+  }
 
   const limit = limitOrAction ? Number.parseInt(limitOrAction, 10) : 10;
   const entries = await readHistory(Number.isFinite(limit) ? limit : 10);
 
-  if (jsonOutput) {
+  if (options.json) {
     process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
     return;
   }
@@ -471,7 +1858,10 @@ async function handleHistory(limitOrAction?: string, jsonOutput?: boolean) {
     process.stdout.write(`${chalk.bold(`#${idx + 1}`)} ${chalk.dim(entry.timestamp)}\n`);
     process.stdout.write(`${chalk.cyan('Prompt:')} ${entry.prompt}\n`);
     const replyBlock = formatAnswerBlock(entry.response);
-    process.stdout.write(`${chalk.green('Reply:')} ${replyBlock}\n`);
+    const truncated = entry.truncated ? ` ${chalk.yellow('(truncated)')}` : '';
+    const errorClass = entry.stats?.errorClass;
+    const failed = errorClass && errorClass !== 'cancelled' ? ` ${chalk.red(`(failed: ${errorClass})`)}` : '';
+    process.stdout.write(`${chalk.green('Reply:')} ${replyBlock}${truncated}${failed}\n`);
     if (entry.threadId) {
       process.stdout.write(`${chalk.dim('Thread:')} ${entry.threadId}\n`);
     }
@@ -479,11 +1869,51 @@ async function handleHistory(limitOrAction?: string, jsonOutput?: boolean) {
   });
 }
 
+async function handleHistoryRepair(options: HistoryCommandOptions) {
+  const finished = options.dryRun ? null : await finishVaultRewrite();
+  if (finished?.length && !options.json) {
+    process.stdout.write(
+      `${chalk.green('✓')} Finished an interrupted key rotation or migration (${finished.join(', ')})\n`,
+    );
+  }
+  const repair = await repairHistory({
+    dryRun: options.dryRun,
+    dropUndecryptable: options.dropUndecryptable,
+  });
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(repair, null, 2)}\n`);
+    return;
+  }
+  const total = repair.kept + repair.dropped.length;
+  if (!repair.dropped.length) {
+    process.stdout.write(`${chalk.green('✓')} No damaged lines in ${repair.path} (${total} checked)\n`);
+  } else {
+    const verb = repair.dryRun ? 'Would drop' : 'Dropped';
+    process.stdout.write(`${verb} ${repair.dropped.length} of ${total} lines from ${repair.path}:\n`);
+    for (const dropped of repair.dropped) {
+      process.stdout.write(`  line ${String(dropped.line).padEnd(6)} ${dropped.reason}\n`);
+    }
+  }
+  if (repair.undecryptable) {
+    process.stdout.write(
+      `${chalk.dim(
+        `Kept ${repair.undecryptable} entries that do not decrypt with the current key ` +
+          '(--drop-undecryptable removes them).',
+      )}\n`,
+    );
+  }
+}
+
 async function fsWrite(target: string, content: string) {
   await writeFile(target, content, 'utf8');
 }
 
-void program.parseAsync(process.argv);
+// Actions report their own errors; this catches the rest, such as a bad --log-level rejected in
+// the root preAction hook.
+program.parseAsync(process.argv).catch((error: any) => {
+  process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+  process.exitCode = 1;
+});
 
 function shouldStartInteractiveSession(promptParts: string[], options: AskOptions) {
   const hasPrompt = promptParts.some((part) => Boolean(part.trim()));
@@ -491,7 +1921,7 @@ function shouldStartInteractiveSession(promptParts: string[], options: AskOption
   if (options.stdin) return false;
   const forceInteractive = process.env.KAPA_FORCE_INTERACTIVE === '1';
   if (!stdinStream.isTTY || !stdoutStream.isTTY) {
-    debugLog('tty check failed', `stdin=${stdinStream.isTTY}`, `stdout=${stdoutStream.isTTY}`);
+    log.debug('tty check failed', { stdin: stdinStream.isTTY, stdout: stdoutStream.isTTY });
     return forceInteractive;
   }
   if (options.json) return false;
@@ -504,15 +1934,13 @@ async function startInteractiveSession(options: AskOptions) {
   const baseOptions: AskOptions = { ...options, thread: undefined, resume: undefined };
   let currentThreadId = await resolveInitialThreadId(options, resolved.name);
   let lastAnswer: string | undefined;
-  debugLog(
-    'startInteractiveSession',
-    JSON.stringify({
-      profile: resolved.name,
-      thread: currentThreadId,
-      stdinTTY: stdinStream.isTTY,
-      stdoutTTY: stdoutStream.isTTY,
-    }),
-  );
+  let lastQuestionAnswerId: string | undefined;
+  log.debug('startInteractiveSession', {
+    profile: resolved.name,
+    thread: currentThreadId,
+    stdinTTY: stdinStream.isTTY,
+    stdoutTTY: stdoutStream.isTTY,
+  });
 
   renderLogoArt();
   renderInteractiveBanner({
@@ -527,7 +1955,7 @@ async function startInteractiveSession(options: AskOptions) {
     try {
       stdinStream.setRawMode(false);
     } catch (error) {
-      debugLog('setRawMode error', error);
+      log.debug('setRawMode error', { error: String(error) });
     }
   }
   stdinStream.resume();
@@ -537,7 +1965,7 @@ async function startInteractiveSession(options: AskOptions) {
     output: stdoutStream,
     terminal: true,
   });
-  debugLog('readline created');
+  log.debug('readline created');
 
   let closing = false;
   let processing = false;
@@ -561,19 +1989,19 @@ async function startInteractiveSession(options: AskOptions) {
     finishSession();
   });
   stdinStream.on('end', () => {
-    debugLog('stdin end event');
+    log.debug('stdin end event');
     finishSession();
   });
   stdinStream.on('close', () => {
-    debugLog('stdin close event');
+    log.debug('stdin close event');
     finishSession();
   });
-  stdinStream.on('pause', () => debugLog('stdin pause'));
-  stdinStream.on('resume', () => debugLog('stdin resume'));
+  stdinStream.on('pause', () => log.debug('stdin pause'));
+  stdinStream.on('resume', () => log.debug('stdin resume'));
 
   const closedPromise = new Promise<void>((resolve) => {
     rl.on('close', () => {
-      debugLog('readline close event');
+      log.debug('readline close event');
       process.stderr.write(`${chalk.dim('Goodbye!')}\n`);
       resolve();
     });
@@ -581,7 +2009,7 @@ async function startInteractiveSession(options: AskOptions) {
 
   rl.on('line', async (line) => {
     const trimmed = line.trim();
-    debugLog('input', JSON.stringify(trimmed));
+    log.debug('input', { text: trimmed });
     if (!trimmed) {
       showPrompt();
       return;
@@ -596,6 +2024,8 @@ async function startInteractiveSession(options: AskOptions) {
           currentThreadId = value;
         },
         getLastAnswer: () => lastAnswer,
+        getLastQuestionAnswerId: () => lastQuestionAnswerId,
+        options: baseOptions,
       });
       if (!shouldContinue) {
         finishSession();
@@ -611,14 +2041,18 @@ async function startInteractiveSession(options: AskOptions) {
       stdinStream.pause();
       rl.pause();
       processing = true;
+      // Leave raw mode so Ctrl+C reaches handleAsk as SIGINT instead of ending the session.
+      setTerminalRawMode(false);
       const result = await handleAsk([trimmed], { ...baseOptions, thread: currentThreadId });
       currentThreadId = result.threadId ?? currentThreadId;
       lastAnswer = result.answer;
-      debugLog('ask handled', JSON.stringify({ thread: currentThreadId }));
+      lastQuestionAnswerId = result.questionAnswerId ?? lastQuestionAnswerId;
+      log.debug('ask handled', { thread: currentThreadId });
     } catch (error: any) {
       process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
     } finally {
       processing = false;
+      setTerminalRawMode(true);
       stdinStream.resume();
       rl.resume();
     }
@@ -629,6 +2063,15 @@ async function startInteractiveSession(options: AskOptions) {
   await closedPromise;
 }
 
+function setTerminalRawMode(enabled: boolean) {
+  if (!stdinStream.isTTY || typeof stdinStream.setRawMode !== 'function') return;
+  try {
+    stdinStream.setRawMode(enabled);
+  } catch (error) {
+    log.debug('setRawMode error', { error: String(error) });
+  }
+}
+
 async function resolveInitialThreadId(options: AskOptions, profileName: string) {
   if (options.thread) return options.thread;
   const resumeValue = options.resume === true ? 'last' : options.resume;
@@ -737,6 +2180,8 @@ function printInteractiveIntro() {
       '  /reset   Start a fresh thread\n' +
       '  /thread  Show the active thread id\n' +
       '  /history View recent history entries\n' +
+      '  /good    Upvote the last answer (optional comment)\n' +
+      '  /bad     Downvote the last answer (optional comment)\n' +
       '  /exit    Leave the session\n\n',
   );
 }
@@ -752,25 +2197,27 @@ async function handleInteractiveCommand(
     getThreadId: () => string | undefined;
     setThreadId: (value?: string) => void;
     getLastAnswer: () => string | undefined;
+    getLastQuestionAnswerId: () => string | undefined;
+    options: AskOptions;
   },
 ) {
   const [command, ...args] = input.trim().split(/\s+/);
   switch (command.toLowerCase()) {
     case 'exit':
     case 'quit':
-      debugLog('command exit');
+      log.debug('command exit');
       return false;
     case 'help':
       printInteractiveIntro();
       return true;
     case 'reset':
       context.setThreadId(undefined);
-      debugLog('command reset');
+      log.debug('command reset');
       process.stdout.write(`${chalk.green('✓')} Started a new thread for follow-up questions.\n`);
       return true;
     case 'thread': {
       const threadId = context.getThreadId();
-      debugLog('command thread', threadId);
+      log.debug('command thread', { threadId });
       if (threadId) {
         process.stdout.write(`${chalk.dim('Current thread:')} ${threadId}\n`);
       } else {
@@ -780,8 +2227,27 @@ async function handleInteractiveCommand(
     }
     case 'history': {
       const limit = args[0];
-      debugLog('command history', limit);
-      await handleHistory(limit, false);
+      log.debug('command history', { limit });
+      await handleHistory(limit, {});
+      return true;
+    }
+    case 'good':
+    case 'bad': {
+      const questionAnswerId = context.getLastQuestionAnswerId();
+      log.debug('command feedback', { command, questionAnswerId });
+      if (!questionAnswerId) {
+        process.stdout.write(`${chalk.dim('Nothing to rate yet – ask something first.')}\n`);
+        return true;
+      }
+      const comment = args.join(' ').trim();
+      try {
+        await handleFeedback(questionAnswerId, command.toLowerCase(), {
+          ...context.options,
+          comment: comment || undefined,
+        });
+      } catch (error: any) {
+        process.stderr.write(`${chalk.red('Error:')} ${error?.message ?? error}\n`);
+      }
       return true;
     }
     case 'cptext': {
@@ -817,7 +2283,7 @@ async function handleInteractiveCommand(
       return true;
     }
     default:
-      debugLog('command unknown', command);
+      log.debug('command unknown', { command });
       process.stdout.write(`${chalk.yellow('Unknown command:')} /${command}\n`);
       process.stdout.write(`Type ${chalk.cyan('/help')} to see available commands.\n`);
       return true;
@@ -0,0 +1,48 @@
+/**
+ * Library entry point (`import { KapaClient } from 'kapa-cli'`). Importing this module
+ * has no side effects; the CLI lives in index.ts and is exposed as the `kapa` binary.
+ */
+
+export { KapaClient, KapaThread } from './client.js';
+export type {
+  AskOptions,
+  KapaAnswer,
+  KapaClientOptions,
+  KapaStream,
+  ProfileClientOptions,
+} from './client.js';
+
+export {
+  fetchThread,
+  KapaApiError,
+  KapaCancelledError,
+  KapaStreamError,
+  KapaTimeoutError,
+  searchSources,
+  sendChat,
+  sendFeedback,
+} from './api.js';
+export type {
+  ChatOptions,
+  ChatResponse,
+  FeedbackOptions,
+  FeedbackReaction,
+  KapaStreamEvent,
+  RequestOptions,
+  SearchOptions,
+  ThreadOptions,
+} from './api.js';
+
+export { KapaCassetteError } from './cassette.js';
+
+export { normalizeResponse, normalizeSearchResults, normalizeThread } from './format.js';
+export type { NormalizedResponse, NormalizedThread, SearchResult, ThreadTurn } from './format.js';
+
+export { findProjectConfig, listProfiles, loadConfig, resolveProfile } from './config.js';
+export type { ProfileConfig, ProjectConfig, ResolvedProfile } from './config.js';
+
+export { DEFAULT_RETRY_POLICY } from './retry.js';
+export type { RetryInfo, RetryPolicy } from './retry.js';
+
+export { configureLogging } from './trace.js';
+export type { LogLevel, TraceEntry } from './trace.js';
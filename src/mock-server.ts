@@ -0,0 +1,320 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * In-process stand-in for the Kapa API used by `kapa dev mock-server` and the
+ * end-to-end tests. It implements the chat (JSON and SSE), thread, search and
+ * feedback endpoints with the same payload shapes the CLI normalizes.
+ */
+
+export interface MockSource {
+  title: string;
+  source_url: string;
+  content?: string;
+}
+
+export interface MockReply {
+  answer?: string;
+  sources?: MockSource[];
+  followUps?: string[];
+  /** Non-2xx status returned instead of an answer. */
+  status?: number;
+  /** Body for a `status` reply; defaults to `{ detail: "Mock error" }`. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Emits part of the answer, then an error chunk (streaming only). */
+  streamError?: string;
+  latencyMs?: number;
+  chunkDelayMs?: number;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  /** When set, requests must send this X-API-KEY; otherwise any non-empty key is accepted. */
+  apiKey?: string;
+  /** Chat replies consumed in order; `defaultReply` is used once the script runs out. */
+  script?: MockReply[];
+  defaultReply?: MockReply;
+  /** Documents returned by search, ranked by word overlap with the query. */
+  sources?: MockSource[];
+  latencyMs?: number;
+  chunkDelayMs?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface MockServer {
+  url: string;
+  port: number;
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+interface MockQuestionAnswer {
+  id: string;
+  thread_id: string;
+  question: string;
+  answer: string;
+  relevant_sources: MockSource[];
+  follow_up_questions: string[];
+  created_at: string;
+  feedback?: { reaction: string; comment?: string };
+}
+
+export const DEFAULT_MOCK_SOURCES: MockSource[] = [
+  {
+    title: 'Getting started',
+    source_url: 'https://docs.example.com/getting-started',
+    content: 'Install the CLI, create a profile and ask your first question.',
+  },
+  {
+    title: 'Rotating API keys',
+    source_url: 'https://docs.example.com/security/api-keys',
+    content: 'Create a new API key, update your clients, then revoke the old key.',
+  },
+  {
+    title: 'Threads and follow-ups',
+    source_url: 'https://docs.example.com/threads',
+    content: 'Follow-up questions reuse the thread id returned with the first answer.',
+  },
+];
+
+const ROUTES = {
+  projectChat: /^\/projects\/([^/]+)\/chat\/?$/,
+  projectSearch: /^\/projects\/([^/]+)\/search\/?$/,
+  threadChat: /^\/threads\/([^/]+)\/chat\/?$/,
+  thread: /^\/threads\/([^/]+)\/?$/,
+  feedback: /^\/question-answers\/([^/]+)\/feedback\/?$/,
+};
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const script = [...(options.script ?? [])];
+  const sources = options.sources ?? DEFAULT_MOCK_SOURCES;
+  const threads = new Map<string, MockQuestionAnswer[]>();
+  const questionAnswers = new Map<string, MockQuestionAnswer>();
+  const requests: MockRequest[] = [];
+  let counter = 0;
+
+  const nextReply = (query: string): MockReply => {
+    const scripted = script.shift() ?? options.defaultReply;
+    if (scripted) return scripted;
+    const matches = rankSources(sources, query);
+    return {
+      answer: `Mock answer to "${query}".\n\nSee the linked guide for details.`,
+      sources: (matches.length ? matches : sources).slice(0, 2),
+      followUps: ['How do I continue this thread?'],
+    };
+  };
+
+  const handleChat = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: any,
+    threadId?: string,
+  ) => {
+    const query = String(body?.query ?? '');
+    if (!query) {
+      sendJson(res, 400, { detail: 'query is required.' });
+      return;
+    }
+    if (!body?.integration_id) {
+      sendJson(res, 400, { detail: 'integration_id is required.' });
+      return;
+    }
+    if (threadId && !threads.has(threadId)) {
+      sendJson(res, 404, { detail: `Thread ${threadId} not found.` });
+      return;
+    }
+
+    const reply = nextReply(query);
+    await delay(reply.latencyMs ?? options.latencyMs ?? 0);
+    if (reply.status && reply.status >= 400) {
+      sendJson(res, reply.status, reply.body ?? { detail: 'Mock error' }, reply.headers);
+      return;
+    }
+
+    counter += 1;
+    const id = threadId ?? `mock-thread-${counter}`;
+    const qa: MockQuestionAnswer = {
+      id: `mock-qa-${counter}`,
+      thread_id: id,
+      question: query,
+      answer: reply.answer ?? '',
+      relevant_sources: reply.sources ?? [],
+      follow_up_questions: reply.followUps ?? [],
+      created_at: new Date().toISOString(),
+    };
+
+    const streaming = String(req.headers.accept ?? '').includes('text/event-stream');
+    if (!streaming) {
+      if (reply.streamError) {
+        sendJson(res, 500, { detail: reply.streamError });
+        return;
+      }
+      record(qa);
+      sendJson(
+        res,
+        200,
+        {
+          answer: qa.answer,
+          thread_id: qa.thread_id,
+          question_answer_id: qa.id,
+          relevant_sources: qa.relevant_sources,
+          question_answer: qa,
+        },
+        reply.headers,
+      );
+      return;
+    }
+
+    const chunkDelay = reply.chunkDelayMs ?? options.chunkDelayMs ?? 0;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...reply.headers,
+    });
+    const send = async (type: string, content: unknown) => {
+      if (res.destroyed) return;
+      res.write(`data: ${JSON.stringify({ chunk: { type, content } })}\n\n`);
+      await delay(chunkDelay);
+    };
+
+    const pieces = qa.answer.match(/\S+\s*|\s+/g) ?? [];
+    if (reply.streamError) {
+      for (const piece of pieces.slice(0, Math.ceil(pieces.length / 2))) {
+        await send('partial_answer', { text: piece });
+      }
+      await send('error', { reason: reply.streamError });
+      res.end();
+      return;
+    }
+    for (const piece of pieces) {
+      await send('partial_answer', { text: piece });
+    }
+    await send('relevant_sources', { relevant_sources: qa.relevant_sources });
+    await send('identifiers', { thread_id: qa.thread_id, question_answer_id: qa.id });
+    record(qa);
+    res.end();
+  };
+
+  const record = (qa: MockQuestionAnswer) => {
+    questionAnswers.set(qa.id, qa);
+    threads.set(qa.thread_id, [...(threads.get(qa.thread_id) ?? []), qa]);
+  };
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse, body: any) => {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://mock').pathname;
+    let match: RegExpExecArray | null;
+
+    if (method === 'POST' && ROUTES.projectChat.test(path)) {
+      await handleChat(req, res, body);
+    } else if (method === 'POST' && (match = ROUTES.threadChat.exec(path))) {
+      await handleChat(req, res, body, decodeURIComponent(match[1]));
+    } else if (method === 'GET' && (match = ROUTES.thread.exec(path))) {
+      const id = decodeURIComponent(match[1]);
+      const turns = threads.get(id);
+      if (!turns) {
+        sendJson(res, 404, { detail: `Thread ${id} not found.` });
+        return;
+      }
+      sendJson(res, 200, { id, question_answers: turns });
+    } else if (method === 'POST' && ROUTES.projectSearch.test(path)) {
+      await delay(options.latencyMs ?? 0);
+      const limit = Number(body?.num_results) || 5;
+      const results = rankSources(sources, String(body?.query ?? '')).slice(0, limit);
+      sendJson(res, 200, { search_results: results });
+    } else if (method === 'POST' && (match = ROUTES.feedback.exec(path))) {
+      const qa = questionAnswers.get(decodeURIComponent(match[1]));
+      if (!qa) {
+        sendJson(res, 404, { detail: 'Question answer not found.' });
+        return;
+      }
+      if (!['upvote', 'downvote'].includes(body?.reaction)) {
+        sendJson(res, 400, { detail: 'reaction must be upvote or downvote.' });
+        return;
+      }
+      qa.feedback = { reaction: body.reaction, comment: body.comment };
+      sendJson(res, 200, { id: qa.id, reaction: body.reaction });
+    } else {
+      sendJson(res, 404, { detail: `No mock route for ${method} ${path}.` });
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (raw += chunk));
+    req.on('end', () => {
+      let body: any;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        sendJson(res, 400, { detail: 'Request body must be JSON.' });
+        return;
+      }
+      const path = new URL(req.url ?? '/', 'http://mock').pathname;
+      requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+
+      const apiKey = req.headers['x-api-key'];
+      if (!apiKey || (options.apiKey && apiKey !== options.apiKey)) {
+        sendJson(res, 401, { detail: 'Invalid API key.' });
+        return;
+      }
+      route(req, res, body).catch((error: any) => {
+        if (!res.headersSent) sendJson(res, 500, { detail: error?.message ?? String(error) });
+        else res.end();
+      });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  const host = options.host ?? '127.0.0.1';
+
+  return {
+    url: `http://${host.includes(':') ? `[${host}]` : host}:${port}`,
+    port,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function rankSources(sources: MockSource[], query: string) {
+  const words = new Set(query.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+  return sources
+    .map((source) => {
+      const text = `${source.title} ${source.content ?? ''}`.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+      const hits = text.filter((word) => words.has(word)).length;
+      return { ...source, score: text.length ? hits / text.length : 0 };
+    })
+    .filter((source) => source.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  payload: unknown,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function delay(ms: number) {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
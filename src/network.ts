@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import { rootCertificates } from 'node:tls';
+import { Agent, ProxyAgent } from 'undici';
+import type { Dispatcher } from 'undici';
+import { createLogger } from './trace.js';
+import { expandHome } from './utils.js';
+
+export interface NetworkSettings {
+  proxy?: string;
+  caFile?: string;
+  insecureSkipVerify?: boolean;
+}
+
+type Env = Record<string, string | undefined>;
+
+const DIRECT_PROXY_VALUES = new Set(['none', 'direct', 'off']);
+const DISPATCHERS = new Map<string, Dispatcher>();
+const log = createLogger('network');
+
+/**
+ * Picks the proxy for a target URL. An explicit profile/flag value wins over
+ * HTTPS_PROXY/HTTP_PROXY; NO_PROXY applies to both.
+ */
+export function resolveProxy(targetUrl: string, configured?: string, env: Env = process.env) {
+  const target = new URL(targetUrl);
+  if (configured && DIRECT_PROXY_VALUES.has(configured.toLowerCase())) {
+    return undefined;
+  }
+  const fromEnv =
+    target.protocol === 'https:'
+      ? env.HTTPS_PROXY ?? env.https_proxy ?? env.ALL_PROXY ?? env.all_proxy
+      : env.HTTP_PROXY ?? env.http_proxy ?? env.ALL_PROXY ?? env.all_proxy;
+  const proxy = configured || fromEnv;
+  if (!proxy) return undefined;
+
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  if (matchesNoProxy(target.hostname, port, env.NO_PROXY ?? env.no_proxy)) {
+    return undefined;
+  }
+  return proxy;
+}
+
+/**
+ * Implements the common NO_PROXY conventions: `*`, exact hosts, domain suffixes
+ * (`example.com` or `.example.com`) and optional `:port` qualifiers.
+ */
+export function matchesNoProxy(hostname: string, port: string, noProxy?: string) {
+  if (!noProxy) return false;
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((rawEntry) => {
+      const entry = rawEntry.toLowerCase();
+      if (entry === '*') return true;
+      const portMatch = /^(.*?)(?::(\d+))?$/.exec(entry.replace(/^\[|\]$/g, ''));
+      const pattern = (portMatch?.[1] ?? entry).replace(/^\*?\./, '.');
+      const entryPort = portMatch?.[2];
+      if (entryPort && entryPort !== port) return false;
+      if (pattern.startsWith('.')) {
+        return host.endsWith(pattern) || host === pattern.slice(1);
+      }
+      return host === pattern || host.endsWith(`.${pattern}`);
+    });
+}
+
+/**
+ * Builds (and memoises) the undici dispatcher for a target. Returns undefined when
+ * the default global dispatcher is sufficient.
+ */
+export async function buildDispatcher(
+  targetUrl: string,
+  settings: NetworkSettings = {},
+  env: Env = process.env,
+): Promise<Dispatcher | undefined> {
+  const proxy = resolveProxy(targetUrl, settings.proxy, env);
+  const caFile = settings.caFile ? expandHome(settings.caFile) : '';
+  const insecure = Boolean(settings.insecureSkipVerify);
+  if (!proxy && !caFile && !insecure) {
+    return undefined;
+  }
+
+  const cacheKey = JSON.stringify({ proxy, caFile, insecure });
+  const cached = DISPATCHERS.get(cacheKey);
+  if (cached) return cached;
+
+  const tls: { ca?: string[]; rejectUnauthorized?: boolean } = {};
+  if (caFile) {
+    const pem = await fs.readFile(caFile, 'utf8').catch((error: any) => {
+      throw new Error(`Unable to read CA file ${caFile}: ${error?.message ?? error}`);
+    });
+    // Passing `ca` replaces Node's bundled roots, so keep them alongside the private CA.
+    tls.ca = [...rootCertificates, pem];
+  }
+  if (insecure) {
+    tls.rejectUnauthorized = false;
+    process.stderr.write(
+      '[kapa] TLS certificate verification is disabled (insecureSkipVerify). Use only for debugging.\n',
+    );
+  }
+
+  const dispatcher = proxy
+    ? new ProxyAgent({ uri: proxy, requestTls: tls, proxyTls: tls })
+    : new Agent({ connect: tls });
+  DISPATCHERS.set(cacheKey, dispatcher);
+  log.debug('custom dispatcher', {
+    proxy: proxy?.replace(/\/\/[^@/]*@/, '//***@'),
+    caFile: caFile || undefined,
+    insecure,
+  });
+  return dispatcher;
+}
@@ -0,0 +1,127 @@
+import { createLogger } from './trace.js';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+  status?: number;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  reason: string;
+  status?: number;
+  delayMs?: number | null;
+}
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  classify: (error: unknown) => RetryDecision;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_RETRY_AFTER_MS = 60_000;
+const log = createLogger('retry');
+
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(overrides) as Array<[keyof RetryPolicy, unknown]>) {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      policy[key] = value;
+    }
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  policy.maxDelayMs = Math.max(policy.baseDelayMs, policy.maxDelayMs);
+  return policy;
+}
+
+export function isRetryableStatus(status: number) {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()) {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the window is fixed, half random.
+ */
+export function computeBackoff(retryNumber: number, policy: RetryPolicy, random = Math.random) {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, retryNumber - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped / 2 + (capped / 2) * random());
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  const policy = resolveRetryPolicy(options.policy);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || options.signal?.aborted) throw error;
+      const decision = options.classify(error);
+      if (!decision.retry) throw error;
+      const delayMs =
+        typeof decision.delayMs === 'number'
+          ? decision.delayMs
+          : computeBackoff(attempt, policy, options.random);
+      if (delayMs > MAX_RETRY_AFTER_MS) throw error;
+      log.debug(`retrying after ${decision.reason}`, { attempt: attempt + 1, delayMs });
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        reason: decision.reason,
+        status: decision.status,
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -1,9 +1,24 @@
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'node:crypto';
 
 export type SecureScope = 'config' | 'history';
 
-const ENCRYPTION_PREFIX = 'enc:v1:';
+/**
+ * Two payload formats share the `salt.iv.ciphertext.tag` layout:
+ * - `enc:v1:` draws a fresh salt, and therefore a fresh scrypt derivation, for every value.
+ * - `enc:v2:` reuses one salt per file (or per process when the caller has none), so a reader
+ *   derives the key once and caches it; the random 12-byte nonce stays per record. The prefix
+ *   is bound as additional authenticated data.
+ * Both are read; only v2 is written.
+ */
+const LEGACY_PREFIX = 'enc:v1:';
+const ENCRYPTION_PREFIX = 'enc:v2:';
+const SALT_BYTES = 16;
+const SALT_LENGTH = 24; // base64 of SALT_BYTES
+const DERIVED_KEY_CACHE_SIZE = 32;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
 const WARNINGS = new Set<string>();
+const SESSION_SALTS = new Map<string, string>();
+const DERIVED_KEYS = new Map<string, Buffer>();
 
 const SCOPE_KEYS: Record<SecureScope, string[]> = {
   config: ['KAPA_VAULT_KEY', 'KAPA_CONFIG_SECRET'],
@@ -15,8 +30,45 @@ const ALLOW_PLAINTEXT_ENV: Record<SecureScope, string> = {
   history: 'KAPA_ALLOW_PLAINTEXT_HISTORY',
 };
 
+export interface EncodeOptions {
+  /** enc:v2 salt to reuse, normally taken from another value of the same file via getSecretSalt. */
+  salt?: string;
+}
+
 export function isEncryptedValue(value: unknown): value is string {
-  return typeof value === 'string' && value.startsWith(ENCRYPTION_PREFIX);
+  return getEncryptionVersion(value) !== null;
+}
+
+export function getEncryptionVersion(value: unknown): 1 | 2 | null {
+  if (typeof value !== 'string') return null;
+  if (value.startsWith(ENCRYPTION_PREFIX)) return 2;
+  if (value.startsWith(LEGACY_PREFIX)) return 1;
+  return null;
+}
+
+/**
+ * Salt of an enc:v2 value, or null for anything else. Only the prefix and salt need to be
+ * present, so a short read of a file's first line is enough.
+ */
+export function getSecretSalt(value: string) {
+  if (!value.startsWith(ENCRYPTION_PREFIX)) return null;
+  const salt = value.slice(ENCRYPTION_PREFIX.length, ENCRYPTION_PREFIX.length + SALT_LENGTH);
+  return salt.length === SALT_LENGTH && value[ENCRYPTION_PREFIX.length + SALT_LENGTH] === '.'
+    ? salt
+    : null;
+}
+
+/**
+ * Structural check of an encrypted value without decrypting it. Truncated or interleaved
+ * writes fail it; a value encrypted with another key passes.
+ */
+export function isWellFormedSecret(value: string) {
+  const version = getEncryptionVersion(value);
+  if (!version) return false;
+  const parts = value.slice((version === 2 ? ENCRYPTION_PREFIX : LEGACY_PREFIX).length).split('.');
+  if (parts.length !== 4 || !parts.every((part) => BASE64_PATTERN.test(part))) return false;
+  const [salt, iv, , tag] = parts.map((part) => Buffer.from(part, 'base64').length);
+  return salt === SALT_BYTES && iv === 12 && tag === 16;
 }
 
 export function maskSecret(value: string | undefined) {
@@ -28,15 +80,20 @@ export function hasSecureKey(scope: SecureScope) {
   return Boolean(getScopeKey(scope));
 }
 
+/** Env var currently supplying the key for `scope`, or null when none is set. */
+export function getScopeKeyName(scope: SecureScope) {
+  return SCOPE_KEYS[scope].find((envName) => process.env[envName]?.trim().length) ?? null;
+}
+
 export function allowPlaintext(scope: SecureScope) {
   return process.env[ALLOW_PLAINTEXT_ENV[scope]] === '1';
 }
 
-export function encodeSecret(value: string, scope: SecureScope) {
+export function encodeSecret(value: string, scope: SecureScope, options: EncodeOptions = {}) {
   if (!value) return '';
   const key = getScopeKey(scope);
   if (key) {
-    return encryptWithKey(value, key);
+    return encryptWithKey(value, key, options.salt);
   }
   if (allowPlaintext(scope)) {
     warnOnce(`${scope}-plaintext`, buildPlaintextWarning(scope));
@@ -78,34 +135,88 @@ export function tryDecodeSecret(value: string, scope: SecureScope) {
   }
 }
 
-function encryptWithKey(value: string, password: string) {
-  const salt = randomBytes(16);
-  const key = scryptSync(password, salt, 32);
+/**
+ * Encrypts a value with a caller-supplied passphrase instead of the scope key, e.g. for
+ * `kapa config export`. The output uses the same format as stored secrets.
+ */
+export function sealWithPassphrase(value: string, passphrase: string, options: EncodeOptions = {}) {
+  if (!passphrase) throw new Error('A passphrase is required to seal secrets.');
+  return encryptWithKey(value, passphrase, options.salt);
+}
+
+/** Reverses sealWithPassphrase; throws when the passphrase is wrong or the payload is damaged. */
+export function openWithPassphrase(value: string, passphrase: string) {
+  if (!isEncryptedValue(value)) return value;
+  try {
+    return decryptWithKey(value, passphrase);
+  } catch {
+    throw new Error('Unable to decrypt sealed value: wrong passphrase or damaged export.');
+  }
+}
+
+function encryptWithKey(value: string, password: string, salt?: string) {
+  const saltB64 = salt ?? getSessionSalt(password);
+  const key = deriveKey(password, saltB64, true);
   const iv = randomBytes(12);
   const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(ENCRYPTION_PREFIX));
   const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
   const tag = cipher.getAuthTag();
-  const payload = [salt, iv, encrypted, tag].map((buf) => buf.toString('base64')).join('.');
-  return `${ENCRYPTION_PREFIX}${payload}`;
+  const payload = [iv, encrypted, tag].map((buf) => buf.toString('base64')).join('.');
+  return `${ENCRYPTION_PREFIX}${saltB64}.${payload}`;
 }
 
 function decryptWithKey(value: string, password: string) {
-  const encoded = value.slice(ENCRYPTION_PREFIX.length);
+  const version = getEncryptionVersion(value);
+  const prefix = version === 2 ? ENCRYPTION_PREFIX : LEGACY_PREFIX;
+  const encoded = value.slice(prefix.length);
   const [saltB64, ivB64, cipherB64, tagB64] = encoded.split('.');
   if (!saltB64 || !ivB64 || !cipherB64 || !tagB64) {
     throw new Error('Malformed encrypted payload');
   }
-  const salt = Buffer.from(saltB64, 'base64');
-  const key = scryptSync(password, salt, 32);
+  // v1 salts are unique per value, so caching their keys would only grow the map.
+  const key = deriveKey(password, saltB64, version === 2);
   const iv = Buffer.from(ivB64, 'base64');
   const ciphertext = Buffer.from(cipherB64, 'base64');
   const tag = Buffer.from(tagB64, 'base64');
   const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  if (version === 2) decipher.setAAD(Buffer.from(ENCRYPTION_PREFIX));
   decipher.setAuthTag(tag);
   const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
   return decrypted.toString('utf8');
 }
 
+function deriveKey(password: string, saltB64: string, cache: boolean) {
+  if (!cache) return scryptSync(password, Buffer.from(saltB64, 'base64'), 32);
+  const cacheKey = `${fingerprint(password)}.${saltB64}`;
+  let key = DERIVED_KEYS.get(cacheKey);
+  if (key) {
+    // Re-insert so the map stays in least-recently-used order.
+    DERIVED_KEYS.delete(cacheKey);
+  } else {
+    key = scryptSync(password, Buffer.from(saltB64, 'base64'), 32);
+    if (DERIVED_KEYS.size >= DERIVED_KEY_CACHE_SIZE) {
+      DERIVED_KEYS.delete(DERIVED_KEYS.keys().next().value!);
+    }
+  }
+  DERIVED_KEYS.set(cacheKey, key);
+  return key;
+}
+
+function getSessionSalt(password: string) {
+  const id = fingerprint(password);
+  let salt = SESSION_SALTS.get(id);
+  if (!salt) {
+    salt = randomBytes(SALT_BYTES).toString('base64');
+    SESSION_SALTS.set(id, salt);
+  }
+  return salt;
+}
+
+function fingerprint(password: string) {
+  return createHash('sha256').update(password).digest('base64');
+}
+
 function getScopeKey(scope: SecureScope) {
   for (const envName of SCOPE_KEYS[scope]) {
     const value = process.env[envName];
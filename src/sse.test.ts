@@ -0,0 +1,98 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+const { createSseParser, iterateSse } = await import('./sse.js');
+
+// Mixes the quirks seen from real proxies: BOM, comments, CRLF, bare CR, unspaced fields,
+// multi-byte characters and a final event without its terminating blank line.
+const RECORDED = [
+  '\uFEFF: keep-alive comment\r\n',
+  'retry: 3000\r\n',
+  'id: 1\r\n',
+  'data: {"chunk":{"type":"partial_answer","content":{"text":"Héllo"}}}\r\n\r\n',
+  'event: update\r',
+  'data: line one\r',
+  'data: line two\r\r',
+  'id: 2\n',
+  'data:no-space 🚀\n\n',
+  ': ping\n\n',
+  'data\n\n',
+  'event: done\ndata: [DONE]',
+].join('');
+
+const EXPECTED = [
+  {
+    event: 'message',
+    data: '{"chunk":{"type":"partial_answer","content":{"text":"Héllo"}}}',
+    id: '1',
+    retry: 3000,
+  },
+  { event: 'update', data: 'line one\nline two', id: '1' },
+  { event: 'message', data: 'no-space 🚀', id: '2' },
+  { event: 'message', data: '', id: '2' },
+  { event: 'done', data: '[DONE]', id: '2' },
+];
+
+const BYTES = new TextEncoder().encode(RECORDED);
+
+async function* chunked(parts: Uint8Array[]) {
+  for (const part of parts) yield part;
+}
+
+async function collect(parts: Uint8Array[]) {
+  const events = [];
+  for await (const event of iterateSse(chunked(parts))) events.push(event);
+  return events;
+}
+
+test('parses a recorded stream delivered in one chunk', async () => {
+  assert.deepEqual(await collect([BYTES]), EXPECTED);
+});
+
+test('parses identically when split at every byte boundary', async () => {
+  for (let split = 1; split < BYTES.length; split++) {
+    const events = await collect([BYTES.subarray(0, split), BYTES.subarray(split)]);
+    assert.deepEqual(events, EXPECTED, `split at byte ${split}`);
+  }
+});
+
+test('parses identically with many small irregular chunks', async () => {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+  for (let run = 0; run < 25; run++) {
+    const parts: Uint8Array[] = [];
+    for (let offset = 0; offset < BYTES.length; ) {
+      const size = 1 + Math.floor(random() * 6);
+      parts.push(BYTES.subarray(offset, offset + size));
+      offset += size;
+    }
+    assert.deepEqual(await collect(parts), EXPECTED, `run ${run}`);
+  }
+});
+
+test('reads from a web ReadableStream and cancels when the consumer stops', async () => {
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('data: first\n\ndata: second\n\n'));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  for await (const event of iterateSse(stream)) {
+    assert.equal(event.data, 'first');
+    break;
+  }
+  assert.ok(cancelled);
+});
+
+test('ignores events without data and unknown fields', () => {
+  const parser = createSseParser();
+  const events = [...parser.push('event: noop\nfoo: bar\n\nretry: soon\ndata: ok\n\n'), ...parser.end()];
+  assert.deepEqual(events, [{ event: 'message', data: 'ok' }]);
+  assert.equal(parser.lastEventId, undefined);
+});
@@ -0,0 +1,160 @@
+/**
+ * Server-sent events parser following the WHATWG EventSource processing model:
+ * CRLF/CR/LF line endings, comment lines, multi-line `data:`, `id:` and `retry:` fields.
+ * Unlike a browser EventSource, an event left in the buffer when the stream closes is
+ * still dispatched, because some proxies drop the final blank line.
+ */
+
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface SseParser {
+  push(chunk: string): SseEvent[];
+  end(): SseEvent[];
+  readonly lastEventId: string | undefined;
+}
+
+export type SseSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+export function createSseParser(): SseParser {
+  let buffer = '';
+  let started = false;
+  let skipLeadingLf = false;
+  let eventType = '';
+  let dataLines: string[] = [];
+  let retry: number | undefined;
+  let lastEventId: string | undefined;
+
+  const dispatch = (events: SseEvent[]) => {
+    if (dataLines.length) {
+      const event: SseEvent = { event: eventType || 'message', data: dataLines.join('\n') };
+      if (lastEventId !== undefined) event.id = lastEventId;
+      if (retry !== undefined) event.retry = retry;
+      events.push(event);
+    }
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (!line) {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      default:
+        break;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      const events: SseEvent[] = [];
+      if (!chunk) return events;
+      let text = chunk;
+      if (!started) {
+        started = true;
+        if (text.startsWith('\uFEFF')) text = text.slice(1);
+      }
+      // A CR ending the previous chunk may be the first half of a CRLF pair.
+      if (skipLeadingLf && text.startsWith('\n')) text = text.slice(1);
+      skipLeadingLf = false;
+      buffer += text;
+
+      let start = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char !== '\r' && char !== '\n') continue;
+        processLine(buffer.slice(start, i), events);
+        if (char === '\r') {
+          if (i + 1 < buffer.length) {
+            if (buffer[i + 1] === '\n') i++;
+          } else {
+            skipLeadingLf = true;
+          }
+        }
+        start = i + 1;
+      }
+      buffer = buffer.slice(start);
+      return events;
+    },
+    end() {
+      const events: SseEvent[] = [];
+      if (buffer) {
+        processLine(buffer, events);
+        buffer = '';
+      }
+      dispatch(events);
+      return events;
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+  };
+}
+
+/**
+ * Decodes a byte stream as UTF-8 and yields events as soon as each one is complete.
+ */
+export async function* iterateSse(
+  source: SseSource,
+  { onChunk }: { onChunk?: () => void } = {},
+): AsyncGenerator<SseEvent> {
+  const parser = createSseParser();
+  const decoder = new TextDecoder();
+
+  for await (const chunk of toAsyncIterable(source)) {
+    onChunk?.();
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    yield* parser.push(text);
+  }
+  yield* parser.push(decoder.decode());
+  yield* parser.end();
+}
+
+async function* toAsyncIterable(source: SseSource): AsyncGenerator<Uint8Array | string> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  let finished = false;
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Consumers that stop early (e.g. on a [DONE] marker) should not leave the socket open.
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
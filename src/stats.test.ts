@@ -0,0 +1,83 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import chalk from 'chalk';
+import type { HistoryEntry } from './history.js';
+import type { AskStats } from './stats.js';
+
+chalk.level = 0;
+const { KapaApiError, KapaCancelledError, KapaTimeoutError } = await import('./api.js');
+const { classifyAskError, percentile, renderUsageReport, summarizeUsage } = await import('./stats.js');
+
+const entry = (
+  timestamp: string,
+  profile: string,
+  stats?: Partial<AskStats> & { durationMs: number },
+  extra: Partial<HistoryEntry> = {},
+): HistoryEntry => ({
+  timestamp,
+  profile,
+  prompt: `question at ${timestamp}`,
+  response: 'answer',
+  ...extra,
+  ...(stats ? { stats: { answerChars: 100, citations: 2, streamed: true, ...stats } } : {}),
+});
+
+test('classifies failures into reportable error classes', () => {
+  assert.equal(classifyAskError(new KapaApiError(403, 'forbidden')), 'auth');
+  assert.equal(classifyAskError(new KapaApiError(429, 'slow down')), 'rate_limit');
+  assert.equal(classifyAskError(new KapaApiError(502, 'bad gateway')), 'server');
+  assert.equal(classifyAskError(new KapaApiError(400, 'bad request')), 'client');
+  assert.equal(classifyAskError(new KapaTimeoutError('late')), 'timeout');
+  assert.equal(classifyAskError(new KapaCancelledError()), 'cancelled');
+  assert.equal(classifyAskError(Object.assign(new Error('x'), { code: 'ECONNRESET' })), 'network');
+  assert.equal(classifyAskError(new Error('boom')), 'other');
+});
+
+test('nearest-rank percentiles', () => {
+  assert.equal(percentile([], 50), undefined);
+  assert.equal(percentile([300, 100, 200], 50), 200);
+  assert.equal(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 95), 10);
+  assert.equal(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 50), 5);
+});
+
+test('summarizes usage per profile within the requested window', () => {
+  const entries = [
+    entry('2024-05-01T00:00:00Z', 'prod', { ttftMs: 100, durationMs: 1000 }, { threadId: 't1' }),
+    entry('2024-05-02T00:00:00Z', 'prod', { ttftMs: 300, durationMs: 3000 }, { threadId: 't1' }),
+    entry('2024-05-03T00:00:00Z', 'prod', { ttftMs: 200, durationMs: 2000 }, { threadId: 't2' }),
+    entry('2024-05-03T01:00:00Z', 'prod', { ttftMs: 1, durationMs: 2, cached: true }),
+    entry('2024-05-04T00:00:00Z', 'prod', { durationMs: 30_000, answerChars: 0, citations: 0, errorClass: 'timeout' }),
+    entry('2024-05-04T00:00:00Z', 'staging', { ttftMs: 50, durationMs: 500, errorClass: 'auth' }),
+    entry('2024-05-04T00:00:00Z', 'staging'),
+    entry('2024-01-01T00:00:00Z', 'prod', { ttftMs: 9000, durationMs: 9000 }, { threadId: 'old' }),
+  ];
+  const report = summarizeUsage(entries, { since: new Date('2024-04-01T00:00:00Z') });
+
+  assert.equal(report.requests, 7);
+  assert.equal(report.withoutStats, 1);
+  const [prod, staging] = report.profiles;
+  assert.equal(prod.profile, 'prod');
+  assert.deepEqual(
+    [prod.requests, prod.errors, prod.errorRate, prod.cached],
+    [5, 1, 0.2, 1],
+  );
+  assert.deepEqual(prod.errorClasses, { timeout: 1 });
+  assert.deepEqual(prod.ttft, { p50: 200, p95: 300 });
+  assert.deepEqual(prod.duration, { p50: 2000, p95: 3000 });
+  assert.deepEqual([staging.requests, staging.errors, staging.errorRate], [2, 1, 1]);
+  assert.deepEqual(
+    report.busiestThreads.map((thread) => [thread.threadId, thread.turns]),
+    [
+      ['t1', 2],
+      ['t2', 1],
+    ],
+  );
+
+  assert.equal(summarizeUsage(entries, { profile: 'staging' }).requests, 2);
+
+  const text = renderUsageReport(report);
+  assert.match(text, /prod\s+5\s+1 \(20\.0%\)\s+1\s+200ms \/ 300ms\s+2s \/ 3s/);
+  assert.match(text, /staging: auth 1/);
+  assert.match(text, / 2 turns  question at 2024-05-01T00:00:00Z \(prod, t1\)/);
+  assert.match(text, /1 older entries have no timing data/);
+});
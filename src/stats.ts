@@ -0,0 +1,237 @@
+import chalk from 'chalk';
+import { KapaApiError, KapaCancelledError, KapaStreamError, KapaTimeoutError } from './api.js';
+import type { HistoryEntry } from './history.js';
+import { deriveTitle } from './history.js';
+import { formatDuration } from './utils.js';
+
+export type ErrorClass =
+  | 'auth'
+  | 'rate_limit'
+  | 'client'
+  | 'server'
+  | 'timeout'
+  | 'stream'
+  | 'network'
+  | 'cancelled'
+  | 'other';
+
+/** Measurements recorded with every history entry written by `kapa` / `kapa ask`. */
+export interface AskStats {
+  /** Until the first answer text arrived; equals `durationMs` for non-streamed answers. */
+  ttftMs?: number;
+  durationMs: number;
+  answerChars: number;
+  citations: number;
+  streamed: boolean;
+  cached?: boolean;
+  errorClass?: ErrorClass;
+}
+
+export interface LatencySummary {
+  p50?: number;
+  p95?: number;
+}
+
+export interface ProfileUsage {
+  profile: string;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  errorClasses: Partial<Record<ErrorClass, number>>;
+  cached: number;
+  ttft: LatencySummary;
+  duration: LatencySummary;
+  avgAnswerChars?: number;
+  avgCitations?: number;
+}
+
+export interface BusyThread {
+  threadId: string;
+  profile: string;
+  title: string;
+  turns: number;
+  lastTimestamp: string;
+}
+
+export interface UsageReport {
+  since?: string;
+  profile?: string;
+  requests: number;
+  /** Entries written before stats were recorded; counted as requests only. */
+  withoutStats: number;
+  profiles: ProfileUsage[];
+  busiestThreads: BusyThread[];
+}
+
+const BUSIEST_THREADS = 5;
+
+export function classifyAskError(error: unknown): ErrorClass {
+  if (error instanceof KapaCancelledError) return 'cancelled';
+  if (error instanceof KapaTimeoutError) return 'timeout';
+  if (error instanceof KapaStreamError) return 'stream';
+  if (error instanceof KapaApiError) {
+    if (error.status === 401 || error.status === 403) return 'auth';
+    if (error.status === 429) return 'rate_limit';
+    return error.status >= 500 ? 'server' : 'client';
+  }
+  const code = (error as any)?.cause?.code ?? (error as any)?.code;
+  if (typeof code === 'string' && /^(E[A-Z]+|UND_ERR_[A-Z_]+)$/.test(code)) return 'network';
+  if (error instanceof TypeError && ['fetch failed', 'terminated'].includes(error.message)) {
+    return 'network';
+  }
+  return 'other';
+}
+
+/**
+ * Nearest-rank percentile; undefined for an empty sample.
+ */
+export function percentile(values: number[], p: number) {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Aggregates history entries into per-profile usage. Cached answers count as requests but
+ * are left out of the latency percentiles, which would otherwise look better than the API.
+ */
+export function summarizeUsage(
+  entries: HistoryEntry[],
+  options: { since?: Date; profile?: string } = {},
+): UsageReport {
+  const sinceMs = options.since?.getTime();
+  const selected = entries.filter(
+    (entry) =>
+      (!options.profile || entry.profile === options.profile) &&
+      (sinceMs === undefined || Date.parse(entry.timestamp) >= sinceMs),
+  );
+
+  const byProfile = new Map<string, HistoryEntry[]>();
+  for (const entry of selected) {
+    const group = byProfile.get(entry.profile);
+    if (group) group.push(entry);
+    else byProfile.set(entry.profile, [entry]);
+  }
+
+  const profiles = [...byProfile.entries()].map(([profile, group]): ProfileUsage => {
+    const measured = group.map((entry) => entry.stats).filter((stats): stats is AskStats => Boolean(stats));
+    const failures = measured.filter((stats) => stats.errorClass);
+    const answered = measured.filter((stats) => !stats.errorClass);
+    const live = answered.filter((stats) => !stats.cached);
+    const errorClasses: Partial<Record<ErrorClass, number>> = {};
+    for (const stats of failures) {
+      errorClasses[stats.errorClass!] = (errorClasses[stats.errorClass!] ?? 0) + 1;
+    }
+    const ttfts = live.map((stats) => stats.ttftMs).filter((value): value is number => value !== undefined);
+    const durations = live.map((stats) => stats.durationMs);
+    return {
+      profile,
+      requests: group.length,
+      errors: failures.length,
+      errorRate: measured.length ? failures.length / measured.length : 0,
+      errorClasses,
+      cached: answered.length - live.length,
+      ttft: { p50: percentile(ttfts, 50), p95: percentile(ttfts, 95) },
+      duration: { p50: percentile(durations, 50), p95: percentile(durations, 95) },
+      avgAnswerChars: average(answered.map((stats) => stats.answerChars)),
+      avgCitations: average(answered.map((stats) => stats.citations)),
+    };
+  });
+
+  return {
+    since: options.since?.toISOString(),
+    profile: options.profile,
+    requests: selected.length,
+    withoutStats: selected.filter((entry) => !entry.stats).length,
+    profiles: profiles.sort((a, b) => b.requests - a.requests || a.profile.localeCompare(b.profile)),
+    busiestThreads: busiestThreads(selected),
+  };
+}
+
+export function renderUsageReport(report: UsageReport) {
+  if (!report.requests) {
+    return chalk.dim('No questions recorded in this period.');
+  }
+  const scope = [
+    report.since ? `since ${report.since.slice(0, 10)}` : 'all time',
+    report.profile ? `profile ${report.profile}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+  const lines = [`${chalk.bold('Kapa usage')} ${chalk.dim(`(${scope})`)}`, ''];
+
+  const header = ['profile', 'asks', 'errors', 'cached', 'ttft p50/p95', 'total p50/p95', 'avg chars', 'avg cites'];
+  const rows = report.profiles.map((usage) => [
+    usage.profile,
+    String(usage.requests),
+    `${usage.errors} (${(usage.errorRate * 100).toFixed(1)}%)`,
+    String(usage.cached),
+    formatLatency(usage.ttft),
+    formatLatency(usage.duration),
+    usage.avgAnswerChars === undefined ? '-' : String(Math.round(usage.avgAnswerChars)),
+    usage.avgCitations === undefined ? '-' : usage.avgCitations.toFixed(1),
+  ]);
+  const widths = header.map((title, idx) => Math.max(title.length, ...rows.map((row) => row[idx].length)));
+  const formatRow = (cells: string[]) => cells.map((cell, idx) => cell.padEnd(widths[idx])).join('  ').trimEnd();
+  lines.push(chalk.dim(formatRow(header)), ...rows.map(formatRow));
+
+  const errorLines = report.profiles
+    .filter((usage) => usage.errors)
+    .map((usage) => {
+      const classes = Object.entries(usage.errorClasses)
+        .sort(([, a], [, b]) => b - a)
+        .map(([name, count]) => `${name} ${count}`)
+        .join(', ');
+      return `  ${usage.profile}: ${classes}`;
+    });
+  if (errorLines.length) {
+    lines.push('', chalk.bold('Errors'), ...errorLines);
+  }
+
+  if (report.busiestThreads.length) {
+    lines.push('', chalk.bold('Busiest threads'));
+    for (const thread of report.busiestThreads) {
+      const turns = `${thread.turns} turn${thread.turns === 1 ? '' : 's'}`;
+      lines.push(`  ${turns.padStart(9)}  ${thread.title} ${chalk.dim(`(${thread.profile}, ${thread.threadId})`)}`);
+    }
+  }
+
+  if (report.withoutStats) {
+    lines.push('', chalk.dim(`${report.withoutStats} older entries have no timing data.`));
+  }
+  return lines.join('\n');
+}
+
+function busiestThreads(entries: HistoryEntry[]): BusyThread[] {
+  const threads = new Map<string, BusyThread>();
+  const ordered = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  for (const entry of ordered) {
+    if (!entry.threadId) continue;
+    const existing = threads.get(entry.threadId);
+    if (existing) {
+      existing.turns += 1;
+      existing.lastTimestamp = entry.timestamp;
+      continue;
+    }
+    threads.set(entry.threadId, {
+      threadId: entry.threadId,
+      profile: entry.profile,
+      title: deriveTitle(entry.prompt),
+      turns: 1,
+      lastTimestamp: entry.timestamp,
+    });
+  }
+  return [...threads.values()]
+    .sort((a, b) => b.turns - a.turns || b.lastTimestamp.localeCompare(a.lastTimestamp))
+    .slice(0, BUSIEST_THREADS);
+}
+
+function formatLatency(summary: LatencySummary) {
+  if (summary.p50 === undefined || summary.p95 === undefined) return '-';
+  return `${formatDuration(summary.p50)} / ${formatDuration(summary.p95)}`;
+}
+
+function average(values: number[]) {
+  return values.length ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+}
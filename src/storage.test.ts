@@ -0,0 +1,127 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises';
+
+const { breakStaleLock, finishFileSet, hasPendingFileSet, withFileLock, writeFileAtomic, writeFilesAtomic } =
+  await import('./storage.js');
+
+const sandbox = await mkdtemp(path.join(os.tmpdir(), 'kapa-storage-test-'));
+test.after(() => rm(sandbox, { recursive: true, force: true }));
+
+test('atomic writes create private files and leave no temp files behind', async () => {
+  const target = path.join(sandbox, 'nested', 'config.json');
+  await writeFileAtomic(target, 'one\n');
+  await writeFileAtomic(target, 'two\n');
+  assert.equal(await readFile(target, 'utf8'), 'two\n');
+  assert.equal((await stat(target)).mode & 0o777, 0o600);
+  assert.equal((await stat(path.dirname(target))).mode & 0o777, 0o700);
+
+  const other = path.join(sandbox, 'nested', 'history.jsonl');
+  await writeFilesAtomic([
+    { target, content: 'three\n' },
+    { target: other, content: 'line\n' },
+  ]);
+  assert.deepEqual(await readdir(path.dirname(target)), ['config.json', 'history.jsonl']);
+});
+
+test('a journaled file set interrupted between renames can be finished', async () => {
+  const dir = path.join(sandbox, 'set');
+  const journal = path.join(dir, 'rewrite.json');
+  const config = path.join(dir, 'config.json');
+  const history = path.join(dir, 'history.jsonl');
+  await writeFilesAtomic(
+    [
+      { target: config, content: 'config v1\n' },
+      { target: history, content: 'history v1\n' },
+    ],
+    { journal },
+  );
+  assert.equal(await hasPendingFileSet(journal), false);
+  assert.equal(await finishFileSet(journal), null);
+
+  // As left by a crash after config.json was replaced but before history.jsonl was.
+  const staged = path.join(dir, '.history.jsonl.1.ab.tmp');
+  await writeFile(config, 'config v2\n');
+  await writeFile(staged, 'history v2\n');
+  await writeFile(
+    journal,
+    JSON.stringify({
+      createdAt: new Date().toISOString(),
+      renames: [
+        { target: config, temp: path.join(dir, '.config.json.1.aa.tmp') },
+        { target: history, temp: staged },
+      ],
+    }),
+  );
+  assert.equal(await hasPendingFileSet(journal), true);
+  assert.deepEqual(await finishFileSet(journal), [history]);
+  assert.deepEqual(
+    [await readFile(config, 'utf8'), await readFile(history, 'utf8')],
+    ['config v2\n', 'history v2\n'],
+  );
+  assert.deepEqual((await readdir(dir)).sort(), ['config.json', 'history.jsonl']);
+});
+
+test('locks serialise read-modify-write cycles', async () => {
+  const counter = path.join(sandbox, 'counter');
+  await writeFile(counter, '0');
+  await Promise.all(
+    Array.from({ length: 20 }, () =>
+      withFileLock(counter, async () => {
+        const value = Number(await readFile(counter, 'utf8'));
+        await new Promise((resolve) => setImmediate(resolve));
+        await writeFileAtomic(counter, String(value + 1));
+      }),
+    ),
+  );
+  assert.equal(await readFile(counter, 'utf8'), '20');
+  await assert.rejects(stat(`${counter}.lock`), { code: 'ENOENT' });
+});
+
+test('stale locks are taken over and live ones time out', async () => {
+  const target = path.join(sandbox, 'locked');
+  const lockPath = `${target}.lock`;
+  const exited = spawnSync(process.execPath, ['-e', '']).pid!;
+  await writeFile(lockPath, JSON.stringify({ pid: exited, hostname: os.hostname(), createdAt: '' }));
+  assert.equal(await withFileLock(target, async () => 'acquired'), 'acquired');
+
+  await writeFile(lockPath, JSON.stringify({ pid: 1, hostname: 'build-agent-7', createdAt: '' }));
+  const old = new Date(Date.now() - 60_000);
+  await utimes(lockPath, old, old);
+  assert.equal(await withFileLock(target, async () => 'acquired'), 'acquired');
+
+  await writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: os.hostname(), createdAt: '' }));
+  await assert.rejects(
+    withFileLock(target, async () => 'acquired', { timeoutMs: 100 }),
+    new RegExp(`waiting for .*locked\\.lock \\(held by pid ${process.pid} on `),
+  );
+  await rm(lockPath);
+});
+
+test('a contender acting on an old stale verdict does not break the winner\'s lock', async () => {
+  const target = path.join(sandbox, 'contended');
+  const lockPath = `${target}.lock`;
+  const exited = spawnSync(process.execPath, ['-e', '']).pid!;
+  const stale = JSON.stringify({ pid: exited, hostname: os.hostname(), createdAt: '' });
+  await writeFile(lockPath, stale);
+
+  // Both contenders read the dead owner. The first breaks the lock and takes it; only then
+  // does the second act on what it read earlier.
+  let winnerLock = '';
+  let secondBroke: boolean | undefined;
+  await withFileLock(target, async () => {
+    winnerLock = await readFile(lockPath, 'utf8');
+    secondBroke = await breakStaleLock(lockPath, stale);
+    assert.equal(await readFile(lockPath, 'utf8'), winnerLock);
+  });
+  assert.equal(secondBroke, false);
+  assert.notEqual(winnerLock, stale);
+  assert.deepEqual((await readdir(sandbox)).filter((name) => name.startsWith('contended')), []);
+
+  await writeFile(lockPath, stale);
+  assert.equal(await breakStaleLock(lockPath, stale), true);
+  assert.equal(await breakStaleLock(lockPath, stale), false);
+});
@@ -0,0 +1,310 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { sleep } from './retry.js';
+import { createLogger } from './trace.js';
+
+/**
+ * File primitives shared by config.json, history.jsonl and the answer cache, so that parallel
+ * `kapa` processes neither corrupt nor interleave each other's writes:
+ * - whole-file writes go to a temp file next to the target and are renamed into place;
+ * - read-modify-write cycles and appends run under an advisory `<file>.lock`;
+ * - files are created 0600 and directories 0700.
+ * Readers take no lock: a rename swaps the file in one step and an append is one write.
+ */
+
+export interface LockOptions {
+  /** Give up waiting for another process after this long. */
+  timeoutMs?: number;
+  /** Age after which a lock from another host is considered abandoned. */
+  staleMs?: number;
+}
+
+export interface FileWrite {
+  target: string;
+  content: string;
+}
+
+export interface FileSetOptions {
+  /**
+   * File recording the staged renames while they run, so a set interrupted between two
+   * renames can be completed by finishFileSet instead of leaving the targets out of step.
+   */
+  journal?: string;
+}
+
+interface FileSetJournal {
+  createdAt: string;
+  renames: Array<{ target: string; temp: string }>;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+}
+
+interface LockState {
+  /** File content as read, compared again before the lock is broken. */
+  raw: string;
+  owner: LockOwner | null;
+}
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 20;
+
+// Serialises lock attempts within this process, e.g. concurrent `kapa batch` workers.
+const localQueues = new Map<string, Promise<unknown>>();
+const log = createLogger('storage');
+
+export async function ensurePrivateDir(dir: string) {
+  await fs.mkdir(dir, { recursive: true, mode: DIR_MODE });
+}
+
+export async function writeFileAtomic(target: string, content: string) {
+  await ensurePrivateDir(path.dirname(target));
+  const temp = await writeTemp(target, content);
+  try {
+    await fs.rename(temp, target);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Stages every file first and only then renames them into place, so a failure while
+ * writing leaves all originals untouched. Each rename is atomic but the set is not: a crash
+ * between two renames leaves some targets replaced. With `options.journal` the pending
+ * renames are recorded first and finishFileSet can complete them later.
+ */
+export async function writeFilesAtomic(writes: FileWrite[], options: FileSetOptions = {}) {
+  const staged: Array<{ target: string; temp: string }> = [];
+  try {
+    for (const write of writes) {
+      await ensurePrivateDir(path.dirname(write.target));
+      staged.push({ target: write.target, temp: await writeTemp(write.target, write.content) });
+    }
+  } catch (error) {
+    await Promise.all(staged.map((write) => fs.rm(write.temp, { force: true })));
+    throw error;
+  }
+  if (options.journal && staged.length) {
+    const journal: FileSetJournal = { createdAt: new Date().toISOString(), renames: staged };
+    await writeFileAtomic(options.journal, `${JSON.stringify(journal, null, 2)}\n`);
+  }
+  for (const write of staged) {
+    await fs.rename(write.temp, write.target);
+  }
+  if (options.journal) await fs.rm(options.journal, { force: true });
+}
+
+/**
+ * Completes a set of renames writeFilesAtomic recorded in `journal` but did not finish. Staged
+ * files still present are renamed into place; missing ones were already moved. Returns the
+ * targets replaced now, or null when no set was pending. Callers hold the targets' locks.
+ */
+export async function finishFileSet(journal: string): Promise<string[] | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(journal, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  // Written by rename, so it is either absent or complete.
+  const pending = JSON.parse(raw) as FileSetJournal;
+  const replaced: string[] = [];
+  for (const { target, temp } of pending.renames ?? []) {
+    try {
+      await fs.rename(temp, target);
+      replaced.push(target);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+  await fs.rm(journal, { force: true });
+  log.warn('finished an interrupted file set', { journal, replaced });
+  return replaced;
+}
+
+/** Whether `journal` records a set of renames that has not been completed. */
+export async function hasPendingFileSet(journal: string) {
+  return fs.access(journal).then(
+    () => true,
+    () => false,
+  );
+}
+
+/** Appends in a single write; callers hold the file's lock. */
+export async function appendFilePrivate(target: string, content: string) {
+  await ensurePrivateDir(path.dirname(target));
+  await fs.appendFile(target, content, { encoding: 'utf8', mode: FILE_MODE });
+}
+
+/**
+ * Runs `task` while holding `<target>.lock` for each target. Locks are taken in sorted order
+ * so two callers locking the same files cannot deadlock. A lock whose owner process is gone
+ * (same host) or that is older than `staleMs` (other hosts) is removed and retried.
+ */
+export async function withFileLock<T>(
+  targets: string | string[],
+  task: () => Promise<T>,
+  options: LockOptions = {},
+): Promise<T> {
+  const lockPaths = [...new Set([targets].flat())].sort().map((target) => `${target}.lock`);
+  const run = async () => {
+    const held: string[] = [];
+    try {
+      for (const lockPath of lockPaths) {
+        await acquireLock(lockPath, options);
+        held.push(lockPath);
+      }
+      return await task();
+    } finally {
+      await Promise.all(held.map((lockPath) => fs.rm(lockPath, { force: true })));
+    }
+  };
+  const key = lockPaths.join('\n');
+  const previous = localQueues.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(run);
+  localQueues.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (localQueues.get(key) === current) localQueues.delete(key);
+  }
+}
+
+async function acquireLock(lockPath: string, options: LockOptions) {
+  const timeoutMs = options.timeoutMs ?? LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    createdAt: new Date().toISOString(),
+  };
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(owner), {
+        encoding: 'utf8',
+        mode: FILE_MODE,
+        flag: 'wx',
+      });
+      return;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        await ensurePrivateDir(path.dirname(lockPath));
+        continue;
+      }
+      if (error?.code !== 'EEXIST') throw error;
+    }
+    const state = await readLock(lockPath);
+    if (!state) continue;
+    const holder = state.owner;
+    if (await isStale(lockPath, holder, staleMs)) {
+      if (await breakStaleLock(lockPath, state.raw)) {
+        log.warn('removed stale lock', { path: lockPath, pid: holder?.pid });
+      }
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      const by = holder ? ` (held by pid ${holder.pid} on ${holder.hostname})` : '';
+      throw new Error(
+        `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${lockPath}${by}. ` +
+          'Delete it if no other kapa process is running.',
+      );
+    }
+    await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Removes a lock that was judged stale from its `observed` content. Several waiters can reach
+ * that verdict at once, and by the time one of them acts another may already have broken the
+ * lock and taken a fresh one. So the lock is first renamed to a name only this call knows, and
+ * if what was moved is not the observed stale lock it is linked back. Returns whether the
+ * stale lock was removed.
+ */
+export async function breakStaleLock(lockPath: string, observed: string) {
+  const claimed = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockPath, claimed);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return false;
+    throw error;
+  }
+  try {
+    if ((await fs.readFile(claimed, 'utf8')) === observed) return true;
+    // A live lock: restore it. link() fails rather than overwrite if the path was taken again.
+    await fs.link(claimed, lockPath).catch((error) => {
+      log.warn('could not restore a live lock', { path: lockPath, code: error?.code });
+    });
+    return false;
+  } finally {
+    await fs.rm(claimed, { force: true });
+  }
+}
+
+async function readLock(lockPath: string): Promise<LockState | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(lockPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    const owner = JSON.parse(raw);
+    const valid = typeof owner?.pid === 'number' && typeof owner?.hostname === 'string';
+    return { raw, owner: valid ? owner : null };
+  } catch {
+    // Still being written by its owner.
+    return { raw, owner: null };
+  }
+}
+
+async function isStale(lockPath: string, owner: LockOwner | null, staleMs: number) {
+  if (owner && owner.hostname === os.hostname()) {
+    return !isProcessAlive(owner.pid);
+  }
+  try {
+    const { mtimeMs } = await fs.stat(lockPath);
+    return Date.now() - mtimeMs > staleMs;
+  } catch {
+    // Released in the meantime; retry right away.
+    return false;
+  }
+}
+
+function isProcessAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === 'EPERM';
+  }
+}
+
+async function writeTemp(target: string, content: string) {
+  const temp = path.join(
+    path.dirname(target),
+    `.${path.basename(target)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`,
+  );
+  const handle = await fs.open(temp, 'wx', FILE_MODE);
+  try {
+    await handle.writeFile(content, 'utf8');
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+  await handle.close();
+  return temp;
+}
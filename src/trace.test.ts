@@ -0,0 +1,94 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile } from 'node:fs/promises';
+
+delete process.env.DEBUG_KAPA;
+delete process.env.KAPA_LOG_LEVEL;
+delete process.env.KAPA_TRACE;
+
+const { configureLogging, createLogger, getLogLevel } = await import('./trace.js');
+const { sendChat } = await import('./api.js');
+const { startMockServer } = await import('./mock-server.js');
+
+function captureStderr(run: () => void) {
+  const lines: string[] = [];
+  const original = process.stderr.write;
+  process.stderr.write = ((chunk: string) => {
+    lines.push(String(chunk));
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    run();
+  } finally {
+    process.stderr.write = original;
+  }
+  return lines.join('');
+}
+
+test('log levels filter output and format fields', () => {
+  const log = createLogger('unit');
+  assert.equal(getLogLevel(), 'warn');
+  assert.equal(captureStderr(() => log.debug('hidden')), '');
+  assert.equal(captureStderr(() => log.warn('shown', { code: 3 })), '[warn] unit: shown code=3\n');
+
+  configureLogging({ verbose: true });
+  assert.equal(
+    captureStderr(() => log.debug('cache', { key: 'abc', note: 'two words', skipped: undefined })),
+    '[debug] unit: cache key=abc note="two words"\n',
+  );
+  configureLogging({ level: 'error' });
+  assert.equal(captureStderr(() => log.info('hidden again')), '');
+  assert.throws(() => configureLogging({ level: 'loud' }), /--log-level must be one of/);
+});
+
+test('--trace writes a HAR-style file with redacted headers, payload and stream timings', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'kapa-trace-test-'));
+  const file = path.join(dir, 'trace.json');
+  configureLogging({ level: 'warn', trace: file });
+  const server = await startMockServer({
+    chunkDelayMs: 5,
+    script: [{ answer: 'Hello there', sources: [] }, { status: 403, body: { detail: 'forbidden' } }],
+  });
+  const chat = (prompt: string) =>
+    sendChat({
+      apiKey: 'sk-live-secret',
+      baseUrl: server.url,
+      projectId: 'demo',
+      integrationId: 'demo',
+      prompt,
+      stream: true,
+      retry: { maxAttempts: 1 },
+    });
+
+  try {
+    await chat('first');
+    await assert.rejects(chat('second'), /403/);
+  } finally {
+    await server.close();
+  }
+
+  const raw = await readFile(file, 'utf8');
+  assert.ok(!raw.includes('sk-live-secret'));
+  const [streamed, failed] = JSON.parse(raw).log.entries;
+
+  assert.equal(streamed.request.url, `${server.url}/projects/demo/chat/`);
+  assert.ok(
+    streamed.request.headers.some((header: any) => header.name === 'X-API-KEY' && header.value === '[redacted]'),
+  );
+  assert.equal(JSON.parse(streamed.request.postData.text).query, 'first');
+  assert.equal(streamed.response.status, 200);
+  assert.match(streamed.response.content.mimeType, /text\/event-stream/);
+  const answers = streamed._events.filter((event: any) => event.type === 'answer');
+  assert.deepEqual(
+    answers.map((event: any) => event.chars),
+    [6, 5],
+  );
+  assert.ok(answers[1].atMs >= answers[0].atMs);
+  assert.ok(streamed._events.some((event: any) => event.type === 'identifiers' && event.threadId));
+
+  assert.equal(failed.response.status, 403);
+  assert.equal(failed._error.name, 'KapaApiError');
+  assert.match(failed._error.message, /forbidden/);
+});
@@ -0,0 +1,214 @@
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import pkg from '../package.json' with { type: 'json' };
+
+/**
+ * Leveled logging and HTTP tracing shared by every module.
+ *
+ * Log lines go to stderr as `[level] scope: message key=value`. The level comes from
+ * `--log-level`/`--verbose`, then KAPA_LOG_LEVEL, then DEBUG_KAPA=1 (debug). A trace
+ * (`--trace <file>` or KAPA_TRACE) additionally records each API exchange: the request
+ * with redacted headers and JSON payload, the response status and headers, the stream
+ * events with their offsets, and the error if one ended the exchange. A file target
+ * receives a HAR-style JSON document; `-` writes one JSON object per exchange to stderr.
+ */
+
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export interface Logger {
+  error(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  debug(message: string, fields?: Record<string, unknown>): void;
+  trace(message: string, fields?: Record<string, unknown>): void;
+}
+
+export interface TraceEntry {
+  startedDateTime: string;
+  /** Total milliseconds until the body was consumed or the exchange failed. */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: Array<{ name: string; value: string }>;
+    postData?: { mimeType: string; text: string };
+  };
+  response?: {
+    status: number;
+    headers: Array<{ name: string; value: string }>;
+    content: { mimeType: string; size: number; text?: string };
+  };
+  timings: { wait: number; receive: number };
+  /** Parsed stream events with milliseconds since the request was sent. */
+  _events?: Array<{ type: string; atMs: number; [key: string]: unknown }>;
+  _error?: { name: string; message: string };
+}
+
+export interface TraceExchange {
+  response(status: number, headers: Iterable<[string, string]>): void;
+  event(type: string, detail?: Record<string, unknown>): void;
+  finish(body?: string): void;
+  fail(error: unknown): void;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug', 'trace'];
+
+const REDACTED = '[redacted]';
+const REDACTED_HEADERS = new Set(['x-api-key', 'authorization', 'proxy-authorization', 'cookie', 'set-cookie']);
+// Keeps trace files readable when a search or thread payload is large.
+const MAX_BODY_CHARS = 64 * 1024;
+
+let level: LogLevel = levelFromEnv(process.env);
+let traceTarget: string | null = process.env.KAPA_TRACE?.trim() || null;
+const traceEntries: TraceEntry[] = [];
+
+/**
+ * Applies CLI flags on top of the environment defaults. Unknown levels are rejected so a
+ * typo does not silently hide output.
+ */
+export function configureLogging(options: { level?: string; verbose?: boolean; trace?: string }) {
+  if (options.level !== undefined) {
+    const normalized = options.level.toLowerCase() as LogLevel;
+    if (!LOG_LEVELS.includes(normalized)) {
+      throw new Error(`--log-level must be one of ${LOG_LEVELS.join(', ')}.`);
+    }
+    level = normalized;
+  } else if (options.verbose) {
+    level = 'debug';
+  }
+  if (options.trace) {
+    traceTarget = options.trace === '-' ? '-' : path.resolve(options.trace);
+  }
+}
+
+export function getLogLevel() {
+  return level;
+}
+
+export function isLogLevelEnabled(target: LogLevel) {
+  return target !== 'silent' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(target);
+}
+
+export function createLogger(scope: string): Logger {
+  const at = (target: LogLevel) => (message: string, fields?: Record<string, unknown>) => {
+    if (!isLogLevelEnabled(target)) return;
+    process.stderr.write(`[${target}] ${scope}: ${message}${formatFields(fields)}\n`);
+  };
+  return { error: at('error'), warn: at('warn'), info: at('info'), debug: at('debug'), trace: at('trace') };
+}
+
+export function redactHeaders(headers: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.has(name.toLowerCase()) ? REDACTED : value,
+    ]),
+  );
+}
+
+const http = createLogger('http');
+
+/**
+ * Starts tracing one HTTP attempt. Always logs a one-line summary at debug level; the full
+ * exchange is only kept when a trace target is configured.
+ */
+export function traceRequest(request: {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}): TraceExchange {
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  const headers = redactHeaders(request.headers);
+  http.trace(`→ ${request.method} ${request.url}`, { headers, body: request.body });
+
+  const entry: TraceEntry = {
+    startedDateTime: new Date().toISOString(),
+    time: 0,
+    request: {
+      method: request.method,
+      url: request.url,
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      ...(request.body === undefined
+        ? {}
+        : { postData: { mimeType: 'application/json', text: request.body } }),
+    },
+    timings: { wait: 0, receive: 0 },
+  };
+  let done = false;
+  const complete = () => {
+    done = true;
+    entry.time = elapsed();
+    entry.timings.receive = Math.max(0, entry.time - entry.timings.wait);
+    if (traceTarget) writeTrace(entry);
+  };
+
+  return {
+    response(status, responseHeaders) {
+      entry.timings.wait = elapsed();
+      const pairs = Object.entries(redactHeaders(Object.fromEntries(responseHeaders)));
+      const contentType = pairs.find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? '';
+      entry.response = {
+        status,
+        headers: pairs.map(([name, value]) => ({ name, value })),
+        content: { mimeType: contentType, size: 0 },
+      };
+      http.debug(`← ${status} ${request.method} ${request.url}`, { waitMs: entry.timings.wait });
+    },
+    event(type, detail = {}) {
+      if (done) return;
+      const atMs = elapsed();
+      (entry._events ??= []).push({ type, atMs, ...detail });
+      http.trace(`stream ${type}`, { atMs, ...detail });
+    },
+    finish(body) {
+      if (done) return;
+      if (entry.response && body !== undefined) {
+        entry.response.content.size = Buffer.byteLength(body);
+        entry.response.content.text =
+          body.length > MAX_BODY_CHARS ? `${body.slice(0, MAX_BODY_CHARS)}…` : body;
+      }
+      complete();
+      http.debug(`done ${request.method} ${request.url}`, { ms: entry.time, events: entry._events?.length });
+    },
+    fail(error) {
+      if (done) return;
+      const name = (error as any)?.name ?? 'Error';
+      const message = (error as any)?.message ?? String(error);
+      entry._error = { name, message };
+      complete();
+      http.debug(`failed ${request.method} ${request.url}`, { ms: entry.time, error: `${name}: ${message}` });
+    },
+  };
+}
+
+function writeTrace(entry: TraceEntry) {
+  if (traceTarget === '-') {
+    process.stderr.write(`${JSON.stringify(entry)}\n`);
+    return;
+  }
+  traceEntries.push(entry);
+  const document = {
+    log: { version: '1.2', creator: { name: pkg.name, version: pkg.version }, entries: traceEntries },
+  };
+  // Rewritten after every exchange so the file is complete even if the process is killed.
+  writeFileSync(traceTarget!, `${JSON.stringify(document, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+}
+
+function levelFromEnv(env: Record<string, string | undefined>): LogLevel {
+  const fromEnv = env.KAPA_LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  if (fromEnv && LOG_LEVELS.includes(fromEnv)) return fromEnv;
+  return env.DEBUG_KAPA === '1' ? 'debug' : 'warn';
+}
+
+function formatFields(fields?: Record<string, unknown>) {
+  if (!fields) return '';
+  const parts = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return `${key}=${typeof value === 'string' && /[\s"=]/.test(text) ? JSON.stringify(text) : text}`;
+    });
+  return parts.length ? ` ${parts.join(' ')}` : '';
+}
@@ -1,3 +1,5 @@
+import os from 'os';
+import path from 'path';
 import { stdin as input } from 'process';
 
 export async function readFromStdin(force = false): Promise<string> {
@@ -15,6 +17,49 @@ export async function readFromStdin(force = false): Promise<string> {
   });
 }
 
+/**
+ * Reads one line from the terminal, e.g. a passphrase (`hidden`) or a y/N answer. The
+ * question goes to stderr so stdout stays clean for piped output.
+ */
+export function promptTerminal(question: string, options: { hidden?: boolean } = {}): Promise<string> {
+  if (!input.isTTY || typeof input.setRawMode !== 'function') {
+    return Promise.reject(new Error(`${question.replace(/[:?]\s*$/, '')} needs an interactive terminal.`));
+  }
+  return new Promise((resolve, reject) => {
+    let value = '';
+    const wasRaw = input.isRaw;
+    const echo = (text: string) => {
+      if (!options.hidden) process.stderr.write(text);
+    };
+    const finish = (error?: Error) => {
+      input.off('data', onData);
+      input.setRawMode(wasRaw);
+      input.pause();
+      process.stderr.write('\n');
+      if (error) reject(error);
+      else resolve(value);
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') return finish();
+        if (char === '\u0003') return finish(new Error('Cancelled.'));
+        if (char === '\u007f' || char === '\b') {
+          if (value) echo('\b \b');
+          value = value.slice(0, -1);
+          continue;
+        }
+        value += char;
+        echo(char);
+      }
+    };
+    process.stderr.write(question);
+    input.setRawMode(true);
+    input.setEncoding('utf8');
+    input.on('data', onData);
+    input.resume();
+  });
+}
+
 export function parseMetadata(pairs: string[] = []) {
   const result: Record<string, unknown> = {};
   for (const pair of pairs) {
@@ -75,3 +120,38 @@ export function extractCodeBlocks(text: string) {
   }
   return blocks;
 }
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parses "500ms", "30s", "2m", "1h" or "30d" into milliseconds. Bare numbers use `defaultUnit`.
+ */
+export function parseDuration(value: string | number, defaultUnit: keyof typeof DURATION_UNITS = 'ms') {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * DURATION_UNITS[defaultUnit] : null;
+  }
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i.exec(value.trim());
+  if (!match) return null;
+  const unit = (match[2]?.toLowerCase() ?? defaultUnit) as keyof typeof DURATION_UNITS;
+  return Math.round(Number(match[1]) * DURATION_UNITS[unit]);
+}
+
+export function formatDuration(ms: number) {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${Number((ms / 1000).toFixed(1))}s`;
+  if (ms < 3_600_000) return `${Number((ms / 60_000).toFixed(1))}m`;
+  return `${Number((ms / 3_600_000).toFixed(1))}h`;
+}
+
+export function expandHome(filePath: string) {
+  if (filePath === '~' || filePath.startsWith(`~${path.sep}`) || filePath.startsWith('~/')) {
+    return path.join(os.homedir(), filePath.slice(1));
+  }
+  return filePath;
+}
@@ -0,0 +1,134 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import { createCipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+
+const sandbox = await mkdtemp(path.join(os.tmpdir(), 'kapa-vault-test-'));
+process.env.KAPA_CONFIG_DIR = path.join(sandbox, 'config');
+process.env.KAPA_DATA_DIR = path.join(sandbox, 'data');
+process.env.KAPA_VAULT_KEY = 'old-key';
+delete process.env.KAPA_HISTORY_KEY;
+delete process.env.KAPA_ALLOW_PLAINTEXT_CONFIG;
+
+const { getConfigPath, loadConfig, setConfigValue, createProfile } = await import('./config.js');
+const { appendHistory, getHistoryPath, readHistory } = await import('./history.js');
+const { getVaultStatus, migrateVault, rotateVault } = await import('./vault.js');
+
+test.after(() => rm(sandbox, { recursive: true, force: true }));
+
+const entry = (prompt: string) => ({
+  timestamp: new Date().toISOString(),
+  profile: 'default',
+  prompt,
+  response: 'answer',
+});
+
+test('rotates config and history to a new key and reports status', async () => {
+  await setConfigValue('apiKey', 'sk-default');
+  await createProfile('ci');
+  await setConfigValue('apiKey', 'sk-ci', { profile: 'ci' });
+  await appendHistory(entry('first'));
+  await appendHistory(entry('second'));
+
+  const before = await getVaultStatus();
+  assert.deepEqual(
+    before.scopes.map((scope) => [scope.scope, scope.keyEnv, scope.encrypted, scope.undecryptable]),
+    [
+      ['config', 'KAPA_VAULT_KEY', 2, 0],
+      ['history', 'KAPA_VAULT_KEY', 2, 0],
+    ],
+  );
+
+  const configBefore = await readFile(getConfigPath(), 'utf8');
+  const dryRun = await rotateVault({ oldKey: 'old-key', newKey: 'new-key', dryRun: true });
+  assert.deepEqual(
+    dryRun.scopes.map((scope) => scope.rotated),
+    [2, 2],
+  );
+  assert.equal(await readFile(getConfigPath(), 'utf8'), configBefore);
+
+  await rotateVault({ oldKey: 'old-key', newKey: 'new-key' });
+  assert.equal((await getVaultStatus()).scopes[0].undecryptable, 2);
+
+  process.env.KAPA_VAULT_KEY = 'new-key';
+  const config = await loadConfig();
+  assert.deepEqual([config.profiles.default.apiKey, config.profiles.ci.apiKey], ['sk-default', 'sk-ci']);
+  assert.deepEqual(
+    (await readHistory()).map((item) => item.prompt),
+    ['second', 'first'],
+  );
+
+  // Re-running after an interruption only counts what is already done.
+  const rerun = await rotateVault({ oldKey: 'old-key', newKey: 'new-key', scopes: ['history'] });
+  assert.deepEqual([rerun.scopes[0].rotated, rerun.scopes[0].alreadyRotated], [0, 2]);
+});
+
+test('rotation aborts without writing when a value decrypts with neither key', async () => {
+  process.env.KAPA_VAULT_KEY = 'stray-key';
+  await appendHistory(entry('written under another key'));
+  process.env.KAPA_VAULT_KEY = 'new-key';
+  const historyBefore = await readFile(getHistoryPath(), 'utf8');
+
+  await assert.rejects(
+    rotateVault({ oldKey: 'new-key', newKey: 'newer-key' }),
+    /1 value\(s\) decrypt with neither key \(history line 3\)\. Nothing was changed\./,
+  );
+  assert.equal(await readFile(getHistoryPath(), 'utf8'), historyBefore);
+  await assert.rejects(rotateVault({ oldKey: 'same', newKey: 'same' }), /must differ/);
+});
+
+test('rotation refuses to apply one key to scopes with different keys', async () => {
+  process.env.KAPA_HISTORY_KEY = 'history-key';
+  try {
+    const configBefore = await readFile(getConfigPath(), 'utf8');
+    await assert.rejects(
+      rotateVault({ oldKey: 'new-key', newKey: 'newer-key' }),
+      /config and history are encrypted with different keys \(KAPA_VAULT_KEY, KAPA_HISTORY_KEY\)/,
+    );
+    assert.equal(await readFile(getConfigPath(), 'utf8'), configBefore);
+
+    const configOnly = await rotateVault({ oldKey: 'new-key', newKey: 'newer-key', scopes: ['config'] });
+    assert.equal(configOnly.scopes[0].rotated, 2);
+  } finally {
+    delete process.env.KAPA_HISTORY_KEY;
+  }
+});
+
+test('migrates enc:v1 history lines onto one enc:v2 salt', async () => {
+  const legacy = (value: string) => {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', scryptSync('new-key', salt, 32), iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    const parts = [salt, iv, encrypted, cipher.getAuthTag()].map((buf) => buf.toString('base64'));
+    return `enc:v1:${parts.join('.')}`;
+  };
+  const lines = (await readFile(getHistoryPath(), 'utf8')).trim().split('\n');
+  // Legacy entries first, then the two current ones and the line under a stray key.
+  const mixed = [entry('old one'), entry('old two')].map((item) => legacy(JSON.stringify(item)));
+  mixed.push(...lines);
+  await writeFile(getHistoryPath(), `${mixed.join('\n')}\n`, 'utf8');
+  assert.equal((await getVaultStatus()).scopes[1].legacy, 2);
+
+  const result = await migrateVault({ scopes: ['history'] });
+  assert.deepEqual(result.scopes[0], {
+    scope: 'history',
+    path: getHistoryPath(),
+    migrated: 2,
+    current: 2,
+    plaintext: 0,
+    undecryptable: 1,
+  });
+
+  const migrated = (await readFile(getHistoryPath(), 'utf8')).trim().split('\n');
+  const salts = new Set(migrated.slice(0, 4).map((line) => line.split('.')[0]));
+  assert.deepEqual([...salts], [lines[0].split('.')[0]]);
+  assert.equal(migrated[4], lines[2]);
+  assert.deepEqual(
+    (await readHistory(10)).map((item) => item.prompt),
+    ['second', 'first', 'old two', 'old one'],
+  );
+  assert.equal((await migrateVault({ scopes: ['history'] })).scopes[0].migrated, 0);
+});
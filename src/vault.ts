@@ -0,0 +1,343 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { clearCache, getCacheStats } from './cache.js';
+import { getConfigDirectory, getConfigPath } from './config.js';
+import { getHistoryPath } from './history.js';
+import {
+  encodeSecret,
+  getEncryptionVersion,
+  getScopeKeyName,
+  getSecretSalt,
+  isEncryptedValue,
+  openWithPassphrase,
+  sealWithPassphrase,
+  tryDecodeSecret,
+} from './security.js';
+import type { SecureScope } from './security.js';
+import { finishFileSet, hasPendingFileSet, withFileLock, writeFilesAtomic } from './storage.js';
+import type { FileWrite } from './storage.js';
+
+/**
+ * Key management for the values security.ts encrypts: API keys in config.json (scope
+ * `config`) and history.jsonl lines (scope `history`). The answer cache shares the history
+ * key but is disposable, so rotation clears it instead of re-encrypting it, and migration
+ * leaves it to expire.
+ */
+
+export interface ScopeStatus {
+  scope: SecureScope;
+  path: string;
+  /** Env var supplying the key, or null when none is set. */
+  keyEnv: string | null;
+  encrypted: number;
+  /** Encrypted values still in the enc:v1 format; `kapa vault migrate` upgrades them. */
+  legacy: number;
+  plaintext: number;
+  /** Encrypted values the current key cannot open. */
+  undecryptable: number;
+}
+
+export interface VaultStatus {
+  scopes: ScopeStatus[];
+  cache: { entries: number; unreadable: number };
+  /** A rotation or migration stopped after replacing only some files; see finishVaultRewrite. */
+  interrupted: boolean;
+}
+
+export interface RotationOptions {
+  oldKey: string;
+  newKey: string;
+  scopes?: SecureScope[];
+  /** Check that everything decrypts without writing anything. */
+  dryRun?: boolean;
+}
+
+export interface ScopeRotation {
+  scope: SecureScope;
+  path: string;
+  rotated: number;
+  /** Already encrypted with the new key, e.g. when resuming an interrupted rotation. */
+  alreadyRotated: number;
+  plaintext: number;
+}
+
+export interface RotationResult {
+  scopes: ScopeRotation[];
+  cacheCleared: number;
+  dryRun: boolean;
+}
+
+export interface MigrationOptions {
+  scopes?: SecureScope[];
+  dryRun?: boolean;
+}
+
+export interface ScopeMigration {
+  scope: SecureScope;
+  path: string;
+  migrated: number;
+  /** Already enc:v2 under the file's salt. */
+  current: number;
+  plaintext: number;
+  /** Left as they are: the current key cannot open them. */
+  undecryptable: number;
+}
+
+export interface MigrationResult {
+  scopes: ScopeMigration[];
+  dryRun: boolean;
+}
+
+const ALL_SCOPES: SecureScope[] = ['config', 'history'];
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const scopes: ScopeStatus[] = [];
+  for (const scope of ALL_SCOPES) {
+    const status: ScopeStatus = {
+      scope,
+      path: scopePath(scope),
+      keyEnv: getScopeKeyName(scope),
+      encrypted: 0,
+      legacy: 0,
+      plaintext: 0,
+      undecryptable: 0,
+    };
+    for (const value of await readScopeValues(scope)) {
+      if (getEncryptionVersion(value) === 1) status.legacy += 1;
+      if (!isEncryptedValue(value)) {
+        status.plaintext += 1;
+      } else if (tryDecodeSecret(value, scope) === null) {
+        status.undecryptable += 1;
+      } else {
+        status.encrypted += 1;
+      }
+    }
+    scopes.push(status);
+  }
+  const cache = await getCacheStats();
+  return {
+    scopes,
+    cache: { entries: cache.entries, unreadable: cache.unreadable },
+    interrupted: await hasPendingFileSet(journalPath()),
+  };
+}
+
+/**
+ * Completes a rotation or migration that stopped between replacing config.json and
+ * history.jsonl, which would otherwise leave them on different keys. Returns the files
+ * replaced now, or null when nothing was pending.
+ */
+export async function finishVaultRewrite() {
+  if (!(await hasPendingFileSet(journalPath()))) return null;
+  return withFileLock(ALL_SCOPES.map(scopePath), () => finishFileSet(journalPath()));
+}
+
+/**
+ * Re-encrypts every stored value of the given scopes from `oldKey` to `newKey`. All values
+ * are decrypted before anything is written; if one fails nothing changes. Files are then
+ * replaced via rename while their locks are held, and values already under the new key are
+ * left alone, so an interrupted rotation can simply be run again. One `oldKey` cannot open
+ * scopes encrypted under different keys, so those have to be rotated one at a time.
+ */
+export async function rotateVault(options: RotationOptions): Promise<RotationResult> {
+  if (!options.oldKey || !options.newKey) {
+    throw new Error('Both the current and the new key are required.');
+  }
+  if (options.oldKey === options.newKey) {
+    throw new Error('The new key must differ from the current key.');
+  }
+  const scopes = options.scopes ?? ALL_SCOPES;
+  if (!options.dryRun) await finishVaultRewrite();
+  const keyNames = scopes.map(getScopeKeyName);
+  if (new Set(keyNames.map((name) => (name ? process.env[name] : null))).size > 1) {
+    throw new Error(
+      `${scopes.join(' and ')} are encrypted with different keys (${keyNames.join(', ')}). ` +
+        'Rotate them one at a time with --scope.',
+    );
+  }
+  return withFileLock(scopes.map(scopePath), () => rotateLocked(scopes, options));
+}
+
+async function rotateLocked(scopes: SecureScope[], options: RotationOptions): Promise<RotationResult> {
+  const writes: FileWrite[] = [];
+  const results: ScopeRotation[] = [];
+  const failures: string[] = [];
+
+  const reseal = (value: string, label: string, result: ScopeRotation) => {
+    if (!isEncryptedValue(value)) {
+      result.plaintext += 1;
+      return value;
+    }
+    try {
+      const plain = openWithPassphrase(value, options.oldKey);
+      result.rotated += 1;
+      return sealWithPassphrase(plain, options.newKey);
+    } catch {
+      // Fall through: the value may already be under the new key.
+    }
+    try {
+      openWithPassphrase(value, options.newKey);
+      result.alreadyRotated += 1;
+    } catch {
+      failures.push(label);
+    }
+    return value;
+  };
+
+  for (const scope of scopes) {
+    const result: ScopeRotation = {
+      scope,
+      path: scopePath(scope),
+      rotated: 0,
+      alreadyRotated: 0,
+      plaintext: 0,
+    };
+    results.push(result);
+    const write = await rewriteScope(scope, (value, label) => reseal(value, label, result));
+    if (write) writes.push(write);
+  }
+
+  if (failures.length) {
+    const shown = failures.slice(0, 3).join(', ');
+    const more = failures.length > 3 ? ` and ${failures.length - 3} more` : '';
+    const hint =
+      scopes.length > 1 ? ' If config and history use different keys, rotate them one at a time with --scope.' : '';
+    throw new Error(
+      `${failures.length} value(s) decrypt with neither key (${shown}${more}). Nothing was changed.${hint}`,
+    );
+  }
+  if (options.dryRun) {
+    return { scopes: results, cacheCleared: 0, dryRun: true };
+  }
+
+  await writeFilesAtomic(writes, { journal: journalPath() });
+  const cacheCleared = scopes.includes('history') ? await clearCache() : 0;
+  return { scopes: results, cacheCleared, dryRun: false };
+}
+
+/**
+ * Re-encrypts enc:v1 values with the current keys in the enc:v2 format, using one salt per
+ * file so reading it back costs a single key derivation. Values the current key cannot open
+ * are reported and kept as they are. Files are replaced the same way as by rotateVault.
+ */
+export async function migrateVault(options: MigrationOptions = {}): Promise<MigrationResult> {
+  const scopes = options.scopes ?? ALL_SCOPES;
+  if (!options.dryRun) await finishVaultRewrite();
+  return withFileLock(scopes.map(scopePath), () => migrateLocked(scopes, options));
+}
+
+async function migrateLocked(scopes: SecureScope[], options: MigrationOptions): Promise<MigrationResult> {
+  const writes: FileWrite[] = [];
+  const results: ScopeMigration[] = [];
+
+  for (const scope of scopes) {
+    const result: ScopeMigration = {
+      scope,
+      path: scopePath(scope),
+      migrated: 0,
+      current: 0,
+      plaintext: 0,
+      undecryptable: 0,
+    };
+    results.push(result);
+    // Keep the salt the file already uses so existing v2 values need no rewrite.
+    let salt = (await readScopeValues(scope)).map(getSecretSalt).find(Boolean) ?? undefined;
+    const write = await rewriteScope(scope, (value) => {
+      if (!isEncryptedValue(value)) {
+        result.plaintext += 1;
+        return value;
+      }
+      const plain = tryDecodeSecret(value, scope);
+      if (plain === null) {
+        result.undecryptable += 1;
+        return value;
+      }
+      if (salt && getSecretSalt(value) === salt) {
+        result.current += 1;
+        return value;
+      }
+      const next = encodeSecret(plain, scope, { salt });
+      salt ??= getSecretSalt(next) ?? undefined;
+      result.migrated += 1;
+      return next;
+    });
+    if (write) writes.push(write);
+  }
+
+  if (!options.dryRun) {
+    await writeFilesAtomic(writes, { journal: journalPath() });
+  }
+  return { scopes: results, dryRun: Boolean(options.dryRun) };
+}
+
+/**
+ * Passes every stored value of a scope through `transform` and returns the rewritten file,
+ * or null when nothing changed.
+ */
+async function rewriteScope(
+  scope: SecureScope,
+  transform: (value: string, label: string) => string,
+): Promise<FileWrite | null> {
+  let changed = false;
+  const apply = (value: string, label: string) => {
+    const next = transform(value, label);
+    if (next !== value) changed = true;
+    return next;
+  };
+  if (scope === 'config') {
+    const config = await readConfigFile();
+    if (!config) return null;
+    for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+      if (typeof profile?.apiKey === 'string' && profile.apiKey) {
+        profile.apiKey = apply(profile.apiKey, `apiKey of profile "${name}"`);
+      }
+    }
+    return changed ? { target: getConfigPath(), content: `${JSON.stringify(config, null, 2)}\n` } : null;
+  }
+  const lines = await readHistoryLines();
+  if (!lines) return null;
+  const next = lines.map((line, index) => apply(line, `history line ${index + 1}`));
+  return changed ? { target: getHistoryPath(), content: `${next.join('\n')}\n` } : null;
+}
+
+function journalPath() {
+  return path.join(getConfigDirectory(), 'vault-rewrite.json');
+}
+
+function scopePath(scope: SecureScope) {
+  return scope === 'config' ? getConfigPath() : getHistoryPath();
+}
+
+async function readScopeValues(scope: SecureScope) {
+  if (scope === 'config') {
+    const config = await readConfigFile();
+    return Object.values(config?.profiles ?? {})
+      .map((profile) => profile?.apiKey)
+      .filter((value): value is string => typeof value === 'string' && value.length > 0);
+  }
+  return (await readHistoryLines()) ?? [];
+}
+
+async function readConfigFile(): Promise<{ profiles?: Record<string, { apiKey?: string }> } | null> {
+  const text = await readOptional(getConfigPath());
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${getConfigPath()} is not valid JSON: ${error?.message ?? error}`);
+  }
+}
+
+async function readHistoryLines() {
+  const text = await readOptional(getHistoryPath());
+  return text === null ? null : text.split('\n').filter(Boolean);
+}
+
+async function readOptional(target: string) {
+  try {
+    return await fs.readFile(target, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}